@@ -46,7 +46,40 @@ index cb3c131..874b8f9 100644
 -import { b } from "../context/b";
 -import { c } from "../context/c";`;
 
-const diffFileList = "file1\nfile2\nfile3\n";
+const diffFileList = "file1\0file2\0file3\0";
+
+const unusualFileList =
+  " leading space.js\0trailing space.js \0new\nline.js\0caf\u00e9.js\0";
+
+const quotedPaths = `diff --git "a/new\\nline \\303\\251.js" "b/new\\nline \\303\\251.js"
+index 4886604..83c3014 100644
+--- "a/new\\nline \\303\\251.js"
++++ "b/new\\nline \\303\\251.js"
+@@ -1,0 +2,2 @@ if (new Date().getTime()) console.log("curly");
++if (new Date().getTime()) console.log("curly");
++if (new Date().getTime()) console.log("curly");
+diff --git a/with space.js b/with space.js
+index 4886604..3238811 100644
+--- a/with space.js	
++++ b/with space.js	
+@@ -1,0 +2 @@ if (new Date().getTime()) console.log("curly");
++if (new Date().getTime()) console.log("curly");`;
+
+const renamed = `diff --git a/old name.js b/src/new name.js
+similarity index 80%
+rename from old name.js
+rename to src/new name.js
+index 4886604..83c3014 100644
+--- a/old name.js	
++++ b/src/new name.js	
+@@ -3 +3,2 @@ if (new Date().getTime()) console.log("curly");
+-if (new Date().getTime()) console.log("curly");
++if (new Date().getTime()) console.log("curly");
++if (new Date().getTime()) console.log("curly");
+diff --git a/moved.js b/lib/moved.js
+similarity index 100%
+rename from moved.js
+rename to lib/moved.js`;
 
 export {
   diff,
@@ -54,4 +87,7 @@ export {
   hunks,
   includingOnlyRemovals,
   diffFileList,
+  unusualFileList,
+  quotedPaths,
+  renamed,
 };
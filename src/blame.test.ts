@@ -0,0 +1,165 @@
+import * as fs from "fs";
+import {
+  getBlamedRanges,
+  intersectRanges,
+  resolveBlameFilter,
+  type BlameFilter,
+} from "./blame";
+import { formatRanges } from "./format";
+import * as git from "./git";
+import { Range } from "./Range";
+
+jest.mock("./git", () => ({
+  ...jest.requireActual<typeof git>("./git"),
+  getAuthorIdent: jest.fn(),
+  getBlameLines: jest.fn(),
+  isInRevision: jest.fn(),
+  parseDate: jest.fn(),
+}));
+jest.mock("fs");
+
+const gitMocked = jest.mocked(git);
+const fsMocked = jest.mocked(fs);
+
+const me = { author: "Me", mail: "<me@example.com>", time: 300 };
+const other = { author: "Other", mail: "<other@example.com>", time: 100 };
+
+const blameLine = (
+  line: number,
+  who: typeof me,
+  committed = true,
+): git.BlameLine => ({ ...who, line, committed });
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  gitMocked.isInRevision.mockReturnValue(true);
+  gitMocked.getAuthorIdent.mockReturnValue(me);
+  gitMocked.parseDate.mockReturnValue(200);
+});
+
+describe("resolveBlameFilter", () => {
+  it("is undefined without --author and --since", () => {
+    expect(resolveBlameFilter({})).toBeUndefined();
+    expect(gitMocked.getAuthorIdent).not.toHaveBeenCalled();
+  });
+
+  it("parses the date once", () => {
+    expect(resolveBlameFilter({ since: "2 weeks ago" })).toEqual({
+      author: undefined,
+      since: 200,
+      ident: me,
+    });
+    expect(gitMocked.parseDate).toHaveBeenCalledWith("2 weeks ago");
+  });
+});
+
+describe("getBlamedRanges", () => {
+  const filter: BlameFilter = { author: /^Me /u, ident: me };
+
+  it("groups consecutive matching lines", () => {
+    gitMocked.getBlameLines.mockReturnValue([
+      blameLine(1, me),
+      blameLine(2, me),
+      blameLine(3, other),
+      blameLine(4, me),
+    ]);
+
+    expect(getBlamedRanges("a.js", filter)).toEqual([
+      new Range(4, 5),
+      new Range(1, 3),
+    ]);
+  });
+
+  it("matches the email too", () => {
+    gitMocked.getBlameLines.mockReturnValue([blameLine(1, me)]);
+
+    expect(
+      getBlamedRanges("a.js", { author: /me@example/u, ident: me }),
+    ).toEqual([new Range(1, 2)]);
+  });
+
+  it("filters by author time", () => {
+    gitMocked.getBlameLines.mockReturnValue([
+      blameLine(1, other),
+      blameLine(2, me),
+    ]);
+
+    expect(getBlamedRanges("a.js", { since: 200, ident: me })).toEqual([
+      new Range(2, 3),
+    ]);
+  });
+
+  it("blames uncommitted lines on the current user", () => {
+    gitMocked.getBlameLines.mockReturnValue([
+      blameLine(1, other),
+      blameLine(2, other, false),
+    ]);
+
+    expect(getBlamedRanges("a.js", filter)).toEqual([new Range(2, 3)]);
+  });
+
+  it("blames the given contents instead of the working tree", () => {
+    gitMocked.getBlameLines.mockReturnValue([blameLine(1, me)]);
+
+    expect(getBlamedRanges("a.js", filter, "staged\n")).toEqual([
+      new Range(1, 2),
+    ]);
+    expect(gitMocked.getBlameLines).toHaveBeenCalledWith("a.js", "staged\n");
+  });
+
+  it("blames every line of files not in HEAD on the current user", () => {
+    gitMocked.isInRevision.mockReturnValue(false);
+    fsMocked.readFileSync.mockReturnValue("a\nb\nc\n");
+
+    expect(getBlamedRanges("new.js", filter)).toEqual([new Range(1, 4)]);
+    expect(gitMocked.getBlameLines).not.toHaveBeenCalled();
+  });
+});
+
+describe("formatting blamed ranges", () => {
+  it("leaves the lines in between alone when formatting shortens lines", async () => {
+    gitMocked.getBlameLines.mockReturnValue([
+      blameLine(1, me),
+      blameLine(2, other),
+      blameLine(3, other),
+      blameLine(4, other),
+      blameLine(5, me),
+    ]);
+    const text = [
+      `const a = [${" ".repeat(40)}1${" ".repeat(40)}];`,
+      "const b   =   2;",
+      "const c   =   3;",
+      "const d   =   4;",
+      "const e   =   5;",
+      "",
+    ].join("\n");
+
+    const { formatted } = await formatRanges(
+      text,
+      getBlamedRanges("a.js", { author: /^Me /u, ident: me }),
+      { filepath: "a.js" },
+    );
+
+    expect(formatted).toBe(
+      [
+        "const a = [1];",
+        "const b   =   2;",
+        "const c   =   3;",
+        "const d   =   4;",
+        "const e = 5;",
+        "",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("intersectRanges", () => {
+  it("keeps the lines both cover, bottom-up", () => {
+    expect(
+      intersectRanges(
+        [new Range(1, 5), new Range(8, 10)],
+        [new Range(3, 9), new Range(12, 13)],
+      ),
+    ).toEqual([new Range(8, 9), new Range(3, 5)]);
+  });
+});
@@ -0,0 +1,120 @@
+import * as fs from "fs";
+import {
+  getAuthorIdent,
+  getBlameLines,
+  isInRevision,
+  parseDate,
+  type BlameLine,
+} from "./git";
+import { END_LINE } from "./marker";
+import { Range } from "./Range";
+
+type BlameFilter = {
+  author?: RegExp; // matched against "Name <email>", like `git log --author`
+  since?: number; // seconds since the epoch
+  ident: Omit<BlameLine, "line" | "committed">; // who uncommitted lines are blamed on
+};
+
+// Resolves `--author` and `--since` once per run, as the date and the
+// current user's identity take a git process each.
+function resolveBlameFilter(options: {
+  author?: string;
+  since?: string;
+}): BlameFilter | undefined {
+  if (options.author === undefined && options.since === undefined) {
+    return undefined;
+  }
+
+  return {
+    author:
+      options.author === undefined
+        ? undefined
+        : new RegExp(options.author, "u"),
+    since: options.since === undefined ? undefined : parseDate(options.since),
+    ident: getAuthorIdent(),
+  };
+}
+
+// Lines changed in `contents`, or else the working tree (all of them, for
+// files not in HEAD), are the current user's, as of now.
+function getBlame(
+  file: string,
+  filter: BlameFilter,
+  contents?: string,
+): BlameLine[] {
+  if (isInRevision(file, "HEAD")) {
+    return getBlameLines(file, contents).map((line) =>
+      line.committed ? line : { ...line, ...filter.ident },
+    );
+  }
+
+  const lineCount = (contents ?? fs.readFileSync(file, "utf-8"))
+    .replace(/\n$/u, "")
+    .split(END_LINE).length;
+
+  return Array.from({ length: lineCount }, (_, i) => ({
+    ...filter.ident,
+    line: i + 1,
+    committed: false,
+  }));
+}
+
+const matchesBlame = (
+  { author, mail, time }: BlameLine,
+  filter: BlameFilter,
+): boolean =>
+  (filter.author === undefined || filter.author.test(`${author} ${mail}`)) &&
+  (filter.since === undefined || time >= filter.since);
+
+// The ranges of consecutive lines whose blame matches the filter, sorted
+// bottom-up like diff ranges, as `formatRanges` expects. `contents` must be
+// what the ranges will be applied to, if not the working tree file.
+function getBlamedRanges(
+  file: string,
+  filter: BlameFilter,
+  contents?: string,
+): Range[] {
+  const ranges: Range[] = [];
+  let start: number | undefined;
+  let end = 0;
+
+  for (const line of getBlame(file, filter, contents)) {
+    if (!matchesBlame(line, filter)) {
+      continue;
+    }
+
+    if (start !== undefined && line.line === end) {
+      end += 1;
+      continue;
+    }
+
+    if (start !== undefined) {
+      ranges.push(new Range(start, end));
+    }
+
+    start = line.line;
+    end = line.line + 1;
+  }
+
+  if (start !== undefined) {
+    ranges.push(new Range(start, end));
+  }
+
+  return ranges.sort((a, b) => b.rangeStart() - a.rangeStart());
+}
+
+// The lines both sets of ranges cover, sorted bottom-up.
+const intersectRanges = (a: Range[], b: Range[]): Range[] =>
+  a
+    .flatMap((rangeA) =>
+      b.flatMap((rangeB) => {
+        const start = Math.max(rangeA.rangeStart(), rangeB.rangeStart()) + 1;
+        const end = Math.min(rangeA.rangeEnd(), rangeB.rangeEnd()) + 1;
+
+        return start < end ? [new Range(start, end)] : [];
+      }),
+    )
+    .sort((a, b) => b.rangeStart() - a.rangeStart());
+
+export { getBlamedRanges, intersectRanges, resolveBlameFilter };
+export type { BlameFilter };
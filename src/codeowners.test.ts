@@ -0,0 +1,125 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  filterByOwners,
+  findOwningRule,
+  matchesPattern,
+  parseCodeowners,
+} from "./codeowners";
+import * as git from "./git";
+import log from "./log";
+
+jest.mock("./git", () => ({
+  ...jest.requireActual<typeof git>("./git"),
+  getRepoRoot: jest.fn(),
+}));
+jest.mock("./log");
+jest.mock("fs");
+
+const gitMocked = jest.mocked(git);
+const logMocked = jest.mocked(log);
+const fsMocked = jest.mocked(fs);
+
+const root = process.cwd();
+
+const CODEOWNERS = `# Default owners
+*       @acme/all
+
+/web/   @acme/web   # the web app
+\\#notes.md @acme/docs
+docs/*  @acme/docs
+web/legacy/
+`;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  gitMocked.getRepoRoot.mockReturnValue(root);
+  fsMocked.existsSync.mockImplementation(
+    (file) => file === path.join(root, "CODEOWNERS"),
+  );
+  fsMocked.readFileSync.mockReturnValue(CODEOWNERS);
+});
+
+describe("parseCodeowners", () => {
+  it("skips comments and blank lines, keeping line numbers", () => {
+    expect(parseCodeowners(CODEOWNERS)).toEqual([
+      { pattern: "*", owners: ["@acme/all"], line: 2 },
+      { pattern: "/web/", owners: ["@acme/web"], line: 4 },
+      { pattern: "#notes.md", owners: ["@acme/docs"], line: 5 },
+      { pattern: "docs/*", owners: ["@acme/docs"], line: 6 },
+      { pattern: "web/legacy/", owners: [], line: 7 },
+    ]);
+  });
+});
+
+describe("matchesPattern", () => {
+  it.each([
+    ["*.js", "src/a.js", true],
+    ["*.js", "a.ts", false],
+    ["/web/", "web/a/b.js", true],
+    ["/web/", "src/web/a.js", false],
+    ["apps/", "src/apps/a.js", true],
+    ["/apps/github", "apps/github/a.js", true],
+    ["docs/*", "docs/a.md", true],
+    ["docs/*", "docs/build/a.md", false],
+    ["**/logs", "deep/logs/a.log", true],
+    ["README.md", "packages/x/README.md", true],
+  ])("%s matches %s: %p", (pattern, file, expected) => {
+    expect(matchesPattern(file, pattern)).toBe(expected);
+  });
+});
+
+describe("findOwningRule", () => {
+  it("picks the last matching rule", () => {
+    const rules = parseCodeowners(CODEOWNERS);
+
+    expect(findOwningRule(rules, "web/a.js")?.line).toBe(4);
+    expect(findOwningRule(rules, "web/legacy/a.js")?.owners).toEqual([]);
+    expect(findOwningRule([], "web/a.js")).toBeUndefined();
+  });
+});
+
+describe("filterByOwners", () => {
+  const files = ["web/a.js", "web/legacy/a.js", "src/b.js"].map((file) =>
+    path.join(root, file),
+  );
+
+  it("keeps the files owned by any of the owners, case-insensitively", () => {
+    expect(filterByOwners(files, { owners: ["@ACME/web"] })).toEqual([
+      path.join(root, "web/a.js"),
+    ]);
+    expect(fsMocked.readFileSync).toHaveBeenCalledWith(
+      path.join(root, "CODEOWNERS"),
+      "utf-8",
+    );
+  });
+
+  it("explains the rule that matched each file", () => {
+    filterByOwners(files, {
+      owners: ["@acme/web"],
+      codeowners: "owners.txt",
+      explain: true,
+    });
+
+    expect(logMocked.info.mock.calls.map(([msg]) => msg)).toEqual([
+      "web/a.js: @acme/web (owners.txt:4 /web/)",
+      "web/legacy/a.js: no owners (owners.txt:7 web/legacy/), skipped",
+      "src/b.js: @acme/all (owners.txt:2 *), skipped",
+    ]);
+  });
+
+  it("keeps all files when only explaining", () => {
+    fsMocked.readFileSync.mockReturnValue("/web/ @acme/web\n");
+
+    expect(filterByOwners(files, { explain: true })).toEqual(files);
+    expect(logMocked.info).toHaveBeenCalledWith("src/b.js: no rule matched");
+  });
+
+  it("fails without a CODEOWNERS file", () => {
+    fsMocked.existsSync.mockReturnValue(false);
+
+    expect(() => filterByOwners(files, { owners: ["@acme/web"] })).toThrow(
+      "No CODEOWNERS file found in .github/CODEOWNERS, CODEOWNERS, docs/CODEOWNERS. Pass one with --codeowners.",
+    );
+  });
+});
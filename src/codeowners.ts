@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as path from "path";
+import micromatch from "micromatch";
+import { getRepoRoot, toRepoPath } from "./git";
+import log from "./log";
+import { END_LINE } from "./marker";
+
+// Where GitHub looks for the file, in order.
+const CODEOWNERS_LOCATIONS = [
+  ".github/CODEOWNERS",
+  "CODEOWNERS",
+  "docs/CODEOWNERS",
+];
+
+type CodeownersRule = {
+  pattern: string;
+  owners: string[]; // empty: the matched paths explicitly have no owner
+  line: number; // 1-based line in the CODEOWNERS file
+};
+
+type OwnerOptions = {
+  owners?: string[]; // --owner: keep only files owned by one of these
+  codeowners?: string; // --codeowners: path to the CODEOWNERS file
+  explain?: boolean; // --explain: log the rule that matched each file
+};
+
+function parseCodeowners(text: string): CodeownersRule[] {
+  return text.split(END_LINE).flatMap((row, i) => {
+    // `\#` escapes a pattern starting with '#'; other '#'s start a comment.
+    const [pattern, ...owners] = row
+      .replace(/(^|\s)#.*$/u, "")
+      .trim()
+      .split(/\s+/u);
+
+    return pattern
+      ? [{ pattern: pattern.replace(/^\\#/u, "#"), owners, line: i + 1 }]
+      : [];
+  });
+}
+
+// CODEOWNERS patterns mostly follow .gitignore rules: a pattern with a
+// slash (other than a trailing one) is relative to the repository root, any
+// other matches at any depth, and naming a directory matches all files below
+// it. Unlike in .gitignore, `docs/*` only matches files directly in docs/.
+function matchesPattern(file: string, pattern: string): boolean {
+  const isDirectory = pattern.endsWith("/");
+  const trimmed = pattern.replace(/^\//u, "").replace(/\/$/u, "");
+  const glob = pattern.slice(0, -1).includes("/") ? trimmed : `**/${trimmed}`;
+  const namesDirectory = !/[*?[]/u.test(path.posix.basename(trimmed));
+
+  return (
+    (!isDirectory && micromatch.isMatch(file, glob, { dot: true })) ||
+    (namesDirectory && micromatch.isMatch(file, `${glob}/**`, { dot: true }))
+  );
+}
+
+// The last matching rule wins, as on GitHub.
+const findOwningRule = (
+  rules: CodeownersRule[],
+  file: string,
+): CodeownersRule | undefined =>
+  [...rules].reverse().find(({ pattern }) => matchesPattern(file, pattern));
+
+function findCodeowners(root: string): string {
+  const file = CODEOWNERS_LOCATIONS.map((location) =>
+    path.join(root, location),
+  ).find((location) => fs.existsSync(location));
+
+  if (file === undefined) {
+    throw Error(
+      `No CODEOWNERS file found in ${CODEOWNERS_LOCATIONS.join(", ")}. Pass one with --codeowners.`,
+    );
+  }
+
+  return file;
+}
+
+// Owners compare case-insensitively, like GitHub users and teams do.
+const isOwnedBy = (rule: CodeownersRule | undefined, owners: string[]) =>
+  rule?.owners.some((owner) =>
+    owners.some((wanted) => wanted.toLowerCase() === owner.toLowerCase()),
+  ) ?? false;
+
+function describeRule(
+  rule: CodeownersRule | undefined,
+  codeowners: string,
+): string {
+  if (rule === undefined) {
+    return "no rule matched";
+  }
+
+  const owners = rule.owners.length > 0 ? rule.owners.join(" ") : "no owners";
+
+  return `${owners} (${codeowners}:${rule.line} ${rule.pattern})`;
+}
+
+// Keeps the files owned by any of `options.owners` (all files without it),
+// logging why each file was kept or dropped with `options.explain`.
+function filterByOwners(files: string[], options: OwnerOptions): string[] {
+  const root = getRepoRoot();
+  const codeowners = options.codeowners ?? findCodeowners(root);
+  const rules = parseCodeowners(fs.readFileSync(codeowners, "utf-8"));
+  const label = path.relative(process.cwd(), codeowners);
+
+  return files.filter((file) => {
+    const relativePath = toRepoPath(file, root);
+    const rule = findOwningRule(rules, relativePath);
+    const isKept =
+      options.owners === undefined ||
+      options.owners.length === 0 ||
+      isOwnedBy(rule, options.owners);
+
+    if (options.explain) {
+      log.info(
+        `${relativePath}: ${describeRule(rule, label)}${isKept ? "" : ", skipped"}`,
+      );
+    }
+
+    return isKept;
+  });
+}
+
+export { filterByOwners, findOwningRule, matchesPattern, parseCodeowners };
+export type { CodeownersRule, OwnerOptions };
@@ -0,0 +1,165 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { runCommit } from "./commit";
+import * as git from "./git";
+import * as processors from "./processors";
+
+jest.mock("./git");
+jest.mock("./log");
+jest.mock("./processors");
+
+const gitMocked = jest.mocked(git);
+const processorsMocked = jest.mocked(processors);
+
+const baseOptions: processors.PrettierOptionsCLI = {
+  check: false,
+  staged: false,
+  changed: true,
+  lines: false,
+  trackedOnly: false,
+};
+
+let dir: string;
+let file: string;
+
+const formattedResult = (
+  mode: processors.ProcessingMode = "whole",
+): processors.RunResult => ({
+  ok: true,
+  files: [{ file, status: "formatted", mode, ranges: [] }],
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "pdq-commit-test-"));
+  file = path.join(dir, "a.js");
+  fs.writeFileSync(file, "formatted");
+
+  gitMocked.resolveCommit.mockReturnValue("head");
+  gitMocked.createStash.mockReturnValue(undefined);
+  gitMocked.isInRevision.mockReturnValue(true);
+  gitMocked.getRevisionContent.mockReturnValue("original");
+  gitMocked.getIndexContent.mockReturnValue("original");
+  gitMocked.writeTree.mockReturnValue("tree");
+  gitMocked.commitTree.mockReturnValue("formatting-commit");
+  gitMocked.getRepoRoot.mockReturnValue(dir);
+  processorsMocked.runPrettier.mockResolvedValue(formattedResult());
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("runCommit", () => {
+  it("commits the formatting on top of HEAD and stages it", async () => {
+    const result = await runCommit(
+      { ...baseOptions, staged: true, restage: true },
+      {},
+    );
+
+    expect(result).toEqual(
+      expect.objectContaining({ commit: "formatting-commit", files: [file] }),
+    );
+    expect(processorsMocked.runPrettier).toHaveBeenCalledWith(
+      expect.objectContaining({ check: false, staged: false, restage: false }),
+    );
+    expect(gitMocked.updateIndexContent).toHaveBeenCalledWith(
+      file,
+      "formatted",
+      expect.stringContaining("pdq-commit-"),
+    );
+    expect(gitMocked.commitTree).toHaveBeenCalledWith(
+      "tree",
+      "head",
+      "Format with Prettier",
+    );
+    expect(gitMocked.updateHead).toHaveBeenCalledWith(
+      "formatting-commit",
+      "head",
+      "pretty-damn-quick: Format with Prettier",
+    );
+    expect(gitMocked.updateIndexContent).toHaveBeenLastCalledWith(
+      file,
+      "formatted",
+    );
+  });
+
+  it("merges the formatting into committed versions that differ", async () => {
+    gitMocked.createStash.mockReturnValue("stash");
+    gitMocked.getRevisionContent.mockImplementation((_, revision) =>
+      revision === "stash" ? "original" : "committed",
+    );
+    gitMocked.mergeFiles.mockReturnValue("committed, formatted");
+
+    await runCommit(baseOptions, { message: "Format" });
+
+    expect(gitMocked.getRevisionContent).toHaveBeenCalledWith(file, "stash");
+    expect(gitMocked.updateIndexContent).toHaveBeenCalledWith(
+      file,
+      "committed, formatted",
+      expect.any(String),
+    );
+    expect(gitMocked.commitTree).toHaveBeenCalledWith("tree", "head", "Format");
+  });
+
+  it("leaves formatting that overlaps pending changes uncommitted", async () => {
+    gitMocked.createStash.mockReturnValue("stash");
+    gitMocked.getRevisionContent.mockImplementation((_, revision) =>
+      revision === "head" ? "committed" : "original",
+    );
+    gitMocked.mergeFiles.mockReturnValue(undefined);
+
+    const result = await runCommit(baseOptions, {});
+
+    expect(result.commit).toBeUndefined();
+    expect(gitMocked.commitTree).not.toHaveBeenCalled();
+    expect(gitMocked.updateHead).not.toHaveBeenCalled();
+  });
+
+  it("leaves files that aren't committed yet out", async () => {
+    gitMocked.isInRevision.mockReturnValue(false);
+
+    expect((await runCommit(baseOptions, {})).files).toEqual([]);
+    expect(gitMocked.commitTree).not.toHaveBeenCalled();
+  });
+
+  it("keeps the formatting unstaged where it conflicts with staged changes", async () => {
+    gitMocked.getIndexContent.mockReturnValue("staged");
+    gitMocked.mergeFiles.mockReturnValue(undefined);
+
+    await runCommit(baseOptions, {});
+
+    expect(gitMocked.updateHead).toHaveBeenCalled();
+    expect(gitMocked.updateIndexContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("commits as a fixup of the given commit", async () => {
+    gitMocked.getCommitSubject.mockReturnValue("Add feature");
+
+    await runCommit(baseOptions, { fixup: "abc" });
+
+    expect(gitMocked.getCommitSubject).toHaveBeenCalledWith("abc");
+    expect(gitMocked.commitTree).toHaveBeenCalledWith(
+      "tree",
+      "head",
+      "fixup! Add feature",
+    );
+  });
+
+  it("lists whole-file formatting commits in .git-blame-ignore-revs", async () => {
+    await runCommit(baseOptions, { blameIgnoreRevs: true });
+
+    expect(
+      fs.readFileSync(path.join(dir, ".git-blame-ignore-revs"), "utf-8"),
+    ).toBe("# Format with Prettier\nformatting-commit\n");
+  });
+
+  it("doesn't list commits that only format some lines", async () => {
+    processorsMocked.runPrettier.mockResolvedValue(formattedResult("ranges"));
+
+    await runCommit(baseOptions, { blameIgnoreRevs: true });
+
+    expect(fs.existsSync(path.join(dir, ".git-blame-ignore-revs"))).toBe(false);
+  });
+});
@@ -0,0 +1,153 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  commitTree,
+  createStash,
+  getCommitSubject,
+  getIndexContent,
+  getRepoRoot,
+  getRevisionContent,
+  isInRevision,
+  readTree,
+  resolveCommit,
+  updateHead,
+  updateIndexContent,
+  writeTree,
+} from "./git";
+import { applyFormatting } from "./format";
+import log from "./log";
+import {
+  runPrettier,
+  type FileResult,
+  type PrettierOptionsCLI,
+  type RunResult,
+} from "./processors";
+
+const DEFAULT_COMMIT_MESSAGE = "Format with Prettier";
+const BLAME_IGNORE_REVS_FILE = ".git-blame-ignore-revs";
+
+type CommitOptions = {
+  message?: string; // --commit: the commit message (default: DEFAULT_COMMIT_MESSAGE)
+  fixup?: string; // --fixup: commit as `fixup! <subject>` of this commit instead
+  blameIgnoreRevs?: boolean; // --blameIgnoreRevs: list whole-file formatting commits
+};
+
+type CommitResult = {
+  run: RunResult;
+  commit?: string; // the formatting commit, unless there was nothing to commit
+  files: string[]; // the files whose formatting it contains
+};
+
+function appendBlameIgnoreRev(commit: string, message: string): void {
+  const file = path.join(getRepoRoot(), BLAME_IGNORE_REVS_FILE);
+
+  fs.appendFileSync(file, `# ${message}\n${commit}\n`, "utf-8");
+  log.info(`Added ${commit} to ${BLAME_IGNORE_REVS_FILE}.`);
+}
+
+// Formats the working tree like `runPrettier`, then commits only what the
+// formatting changed on top of HEAD. Each file's formatting is merged onto
+// its committed (and staged) version, so other pending changes stay
+// uncommitted; formatting that overlaps them is left in the working tree.
+async function runCommit(
+  options: PrettierOptionsCLI,
+  commitOptions: CommitOptions,
+): Promise<CommitResult> {
+  const head = resolveCommit("HEAD");
+  // What the working tree looked like before formatting.
+  const snapshot = createStash() ?? head;
+  const run = await runPrettier({
+    ...options,
+    check: false,
+    staged: false,
+    restage: false,
+  });
+  const formattedFiles = run.files.filter(
+    ({ status }) => status === "formatted",
+  );
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pdq-commit-"));
+  const indexFile = path.join(dir, "index");
+  const committed: FileResult[] = [];
+  const staged = new Map<string, string>();
+  let commit: string | undefined;
+
+  try {
+    readTree(head, indexFile);
+
+    for (const result of formattedFiles) {
+      const { file } = result;
+
+      if (!isInRevision(file, head)) {
+        log.warn(`${file}: not committed yet, so its formatting isn't either.`);
+        continue;
+      }
+
+      const original = getRevisionContent(file, snapshot);
+      const formatted = fs.readFileSync(file, "utf-8");
+      const text = applyFormatting(
+        dir,
+        getRevisionContent(file, head),
+        original,
+        formatted,
+      );
+
+      if (text === undefined) {
+        log.warn(
+          `${file}: the formatting overlaps uncommitted changes, so it stays in the working tree only.`,
+        );
+        continue;
+      }
+
+      updateIndexContent(file, text, indexFile);
+      committed.push(result);
+
+      // Staged changes that conflict with the formatting keep it unstaged.
+      const stagedText = applyFormatting(
+        dir,
+        getIndexContent(file),
+        original,
+        formatted,
+      );
+
+      if (stagedText !== undefined) {
+        staged.set(file, stagedText);
+      }
+    }
+
+    if (committed.length === 0) {
+      log.info("No formatting changes to commit.");
+      return { run, files: [] };
+    }
+
+    const message =
+      commitOptions.fixup !== undefined
+        ? `fixup! ${getCommitSubject(commitOptions.fixup)}`
+        : commitOptions.message || DEFAULT_COMMIT_MESSAGE;
+
+    commit = commitTree(writeTree(indexFile), head, message);
+    updateHead(commit, head, `pretty-damn-quick: ${message}`);
+
+    for (const [file, text] of staged) {
+      updateIndexContent(file, text);
+    }
+
+    log.info(
+      `Committed the formatting of ${committed.length} file(s) as ${commit}.`,
+    );
+
+    if (
+      commitOptions.blameIgnoreRevs &&
+      committed.every(({ mode }) => mode === "whole")
+    ) {
+      appendBlameIgnoreRev(commit, message);
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+
+  return { run, commit, files: committed.map(({ file }) => file) };
+}
+
+export { DEFAULT_COMMIT_MESSAGE, runCommit };
+export type { CommitOptions, CommitResult };
@@ -0,0 +1,150 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { applyConfig, loadConfig, validateConfig } from "./config";
+import * as git from "./git";
+
+jest.mock("./git");
+
+const gitMocked = jest.mocked(git);
+
+let root: string;
+
+const write = (file: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+  fs.writeFileSync(path.join(root, file), content);
+};
+
+beforeEach(() => {
+  root = fs.mkdtempSync(path.join(os.tmpdir(), "pdq-config-"));
+  gitMocked.getRepoRoot.mockReturnValue(root);
+});
+
+afterEach(() => {
+  fs.rmSync(root, { recursive: true, force: true });
+});
+
+describe("loadConfig", () => {
+  it("is empty without config files", async () => {
+    expect(await loadConfig(root)).toEqual({});
+  });
+
+  it("merges configs from the repo root down to the cwd", async () => {
+    write(".pdqrc", JSON.stringify({ lines: true, check: true }));
+    write("packages/web/.pdqrc.json", JSON.stringify({ check: false }));
+
+    expect(await loadConfig(path.join(root, "packages/web"))).toEqual({
+      lines: true,
+      check: false,
+    });
+  });
+
+  it("reads the package.json key, and skips package.json files without it", async () => {
+    write(
+      "package.json",
+      JSON.stringify({ "pretty-damn-quick": { staged: true } }),
+    );
+    write("packages/api/package.json", JSON.stringify({ name: "api" }));
+
+    expect(await loadConfig(path.join(root, "packages/api"))).toEqual({
+      staged: true,
+    });
+  });
+
+  it("loads pdq.config.js, resolving paths relative to it", async () => {
+    write(
+      "tools/pdq.config.js",
+      'module.exports = { codeowners: "../.github/CODEOWNERS" };',
+    );
+
+    expect(await loadConfig(path.join(root, "tools"))).toEqual({
+      codeowners: path.join(root, ".github/CODEOWNERS"),
+    });
+  });
+
+  it("prefers .pdqrc over other files in the same directory", async () => {
+    write(".pdqrc", JSON.stringify({ changed: true }));
+    write(
+      "package.json",
+      JSON.stringify({ "pretty-damn-quick": { staged: true } }),
+    );
+
+    expect(await loadConfig(root)).toEqual({ changed: true });
+  });
+
+  it("names files that aren't valid JSON", async () => {
+    write(".pdqrc", "{ lines: true }");
+
+    await expect(loadConfig(root)).rejects.toThrow(
+      `Couldn't parse ${path.join(root, ".pdqrc")}:`,
+    );
+  });
+});
+
+describe("validateConfig", () => {
+  it.each([
+    [{ foo: true }, "Unknown option 'foo' in .pdqrc."],
+    [
+      { lines: "yes" },
+      "Option 'lines' in .pdqrc must be a boolean, 'experimental', 'node' or 'word'.",
+    ],
+    [
+      { extensions: "ts,js" },
+      "Option 'extensions' in .pdqrc must be an array of strings.",
+    ],
+    [{ concurrency: "4" }, "Option 'concurrency' in .pdqrc must be a number."],
+    [
+      { renameThreshold: 150 },
+      "Option 'renameThreshold' in .pdqrc must be a number between 0 and 100.",
+    ],
+    [
+      { wholeFileThreshold: -1 },
+      "Option 'wholeFileThreshold' in .pdqrc must be a number between 0 and 100.",
+    ],
+    [
+      { overrides: [{ files: "legacy/**", mode: "ignore" }] },
+      "Option 'overrides' in .pdqrc must be an array of { files, mode } objects, with mode one of 'whole', 'ranges', 'markers', 'skip'.",
+    ],
+    [["--lines"], ".pdqrc must contain an object of options."],
+  ])("rejects %j", (config, message) => {
+    expect(() => validateConfig(config, ".pdqrc")).toThrow(message);
+  });
+
+  it("accepts every option with the right type", () => {
+    const config = {
+      lines: "experimental",
+      extensions: ["ts"],
+      concurrency: 2,
+      renameThreshold: 0,
+      wholeFileThreshold: 100,
+      author: "jane",
+      explain: true,
+      overrides: [
+        { files: ["*.json", "docs/**"], mode: "whole" },
+        { files: "legacy/**", mode: "skip" },
+      ],
+    };
+
+    expect(validateConfig(config, ".pdqrc")).toBe(config);
+  });
+});
+
+describe("applyConfig", () => {
+  it("lets CLI flags that were passed win", () => {
+    expect(
+      applyConfig(
+        { lines: true, check: true, patterns: ["src/**"] },
+        { check: false, patterns: undefined, base: "main" },
+      ),
+    ).toEqual({
+      check: false,
+      staged: false,
+      changed: false,
+      trackedOnly: false,
+      lines: true,
+      extensions: [],
+      patterns: ["src/**"],
+      base: "main",
+    });
+  });
+});
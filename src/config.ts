@@ -0,0 +1,205 @@
+import * as fs from "fs";
+import * as path from "path";
+import { getRepoRoot } from "./git";
+import { OVERRIDE_MODES, isModeOverride } from "./overrides";
+import type { PrettierOptionsCLI } from "./processors";
+
+const PACKAGE_JSON_KEY = "pretty-damn-quick";
+// Looked up in this order in each directory; the first one found is used.
+const CONFIG_FILES = [".pdqrc", ".pdqrc.json", "pdq.config.js", "package.json"];
+
+// Everything but what only other commands set internally, and the deprecated
+// `pattern`.
+type PdqConfig = Partial<Omit<PrettierOptionsCLI, "revision" | "pattern">>;
+
+type ConfigType =
+  | "boolean"
+  | "string"
+  | "number"
+  | "percentage"
+  | "string[]"
+  | "lines"
+  | "overrides";
+
+const CONFIG_TYPES: Record<keyof PdqConfig, ConfigType> = {
+  check: "boolean",
+  staged: "boolean",
+  changed: "boolean",
+  trackedOnly: "boolean",
+  lines: "lines",
+  restage: "boolean",
+  base: "string",
+  branch: "string",
+  concurrency: "number",
+  commits: "string",
+  lastCommit: "boolean",
+  renameThreshold: "percentage",
+  wholeFileThreshold: "percentage",
+  extensions: "string[]",
+  patterns: "string[]",
+  ignore: "string[]",
+  author: "string",
+  since: "string",
+  owners: "string[]",
+  codeowners: "string",
+  explain: "boolean",
+  overrides: "overrides",
+};
+
+const TYPE_DESCRIPTIONS: Record<ConfigType, string> = {
+  boolean: "a boolean",
+  string: "a string",
+  number: "a number",
+  percentage: "a number between 0 and 100",
+  "string[]": "an array of strings",
+  lines: "a boolean, 'experimental', 'node' or 'word'",
+  overrides: `an array of { files, mode } objects, with mode one of ${OVERRIDE_MODES.map((mode) => `'${mode}'`).join(", ")}`,
+};
+
+const isConfigKey = (key: string): key is keyof PdqConfig =>
+  Object.prototype.hasOwnProperty.call(CONFIG_TYPES, key);
+
+const hasType = (value: unknown, type: ConfigType): boolean => {
+  switch (type) {
+    case "string[]":
+      return (
+        Array.isArray(value) && value.every((item) => typeof item === "string")
+      );
+    case "lines":
+      return (
+        typeof value === "boolean" ||
+        value === "experimental" ||
+        value === "node" ||
+        value === "word"
+      );
+    case "overrides":
+      return Array.isArray(value) && value.every(isModeOverride);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "percentage":
+      return typeof value === "number" && value >= 0 && value <= 100;
+    default:
+      return typeof value === type;
+  }
+};
+
+// Checks every key and its type, naming the offending key and file.
+function validateConfig(config: unknown, file: string): PdqConfig {
+  if (typeof config !== "object" || config === null || Array.isArray(config)) {
+    throw Error(`${file} must contain an object of options.`);
+  }
+
+  for (const [key, value] of Object.entries(config)) {
+    if (!isConfigKey(key)) {
+      throw Error(`Unknown option '${key}' in ${file}.`);
+    }
+
+    const type = CONFIG_TYPES[key];
+
+    if (!hasType(value, type)) {
+      throw Error(
+        `Option '${key}' in ${file} must be ${TYPE_DESCRIPTIONS[type]}.`,
+      );
+    }
+  }
+
+  return config as PdqConfig;
+}
+
+// Unlike globs, which are relative to the repo root, a CODEOWNERS path is
+// relative to the config file setting it.
+const resolvePaths = (config: PdqConfig, dir: string): PdqConfig =>
+  config.codeowners === undefined
+    ? config
+    : { ...config, codeowners: path.resolve(dir, config.codeowners) };
+
+// The config of a single directory, if it has one.
+async function readConfig(dir: string): Promise<PdqConfig | undefined> {
+  for (const name of CONFIG_FILES) {
+    const file = path.join(dir, name);
+
+    if (!fs.existsSync(file)) {
+      continue;
+    }
+
+    if (name === "pdq.config.js") {
+      const loaded = (await import(file)) as { default?: unknown };
+
+      return resolvePaths(validateConfig(loaded.default ?? loaded, file), dir);
+    }
+
+    let content: unknown;
+
+    try {
+      content = JSON.parse(fs.readFileSync(file, "utf-8"));
+    } catch (err: unknown) {
+      throw Error(
+        `Couldn't parse ${file}: ${err instanceof Error ? err.message : String(err)}`,
+      );
+    }
+
+    if (name !== "package.json") {
+      return resolvePaths(validateConfig(content, file), dir);
+    }
+
+    const pkgConfig = (content as Record<string, unknown> | null)?.[
+      PACKAGE_JSON_KEY
+    ];
+
+    if (pkgConfig !== undefined) {
+      return resolvePaths(
+        validateConfig(pkgConfig, `${file} ("${PACKAGE_JSON_KEY}")`),
+        dir,
+      );
+    }
+  }
+
+  return undefined;
+}
+
+// Merges the configs found from the repo root down to `cwd`, so those closer
+// to where pretty-damn-quick runs win.
+async function loadConfig(cwd = process.cwd()): Promise<PdqConfig> {
+  const root = getRepoRoot();
+  const dirs = [cwd];
+
+  for (let dir = cwd; dir !== root && path.dirname(dir) !== dir; ) {
+    dir = path.dirname(dir);
+    dirs.unshift(dir);
+  }
+
+  let config: PdqConfig = {};
+
+  for (const dir of dirs) {
+    config = { ...config, ...(await readConfig(dir)) };
+  }
+
+  return config;
+}
+
+// CLI flags win over the config; what neither sets gets the CLI's defaults.
+function applyConfig(
+  config: PdqConfig,
+  cliOptions: PdqConfig,
+): PrettierOptionsCLI {
+  const options: PdqConfig = { ...config };
+
+  for (const [key, value] of Object.entries(cliOptions)) {
+    if (value !== undefined) {
+      Object.assign(options, { [key]: value });
+    }
+  }
+
+  return {
+    ...options,
+    check: options.check ?? false,
+    staged: options.staged ?? false,
+    changed: options.changed ?? false,
+    trackedOnly: options.trackedOnly ?? false,
+    lines: options.lines ?? false,
+    extensions: options.extensions ?? [],
+  };
+}
+
+export { CONFIG_FILES, applyConfig, loadConfig, validateConfig };
+export type { PdqConfig };
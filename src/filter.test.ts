@@ -0,0 +1,95 @@
+import * as git from "./git";
+import { cleanText } from "./filter";
+import type { PrettierOptionsCLI } from "./processors";
+
+jest.mock("./git", () => ({
+  ...jest.requireActual<typeof git>("./git"),
+  getIndexContent: jest.fn(),
+  getRepoRoot: jest.fn(),
+  isInIndex: jest.fn(),
+}));
+
+const gitMocked = jest.mocked(git);
+
+const baseOptions: PrettierOptionsCLI = {
+  check: false,
+  staged: false,
+  changed: false,
+  lines: false,
+  trackedOnly: false,
+};
+
+const staged = "const a   =   1;\nconst b   =   2;\nconst c   =   3;\n";
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  gitMocked.isInIndex.mockReturnValue(true);
+  gitMocked.getRepoRoot.mockReturnValue(process.cwd());
+});
+
+describe("cleanText", () => {
+  it("formats only the lines that differ from the index", async () => {
+    gitMocked.getIndexContent.mockReturnValue(
+      "const a   =   1;\nconst b   =   1;\nconst c   =   3;\n",
+    );
+
+    const output = await cleanText("file.js", Buffer.from(staged), baseOptions);
+
+    expect(output.toString()).toBe(
+      "const a   =   1;\nconst b = 2;\nconst c   =   3;\n",
+    );
+    expect(gitMocked.getIndexContent).toHaveBeenCalledWith("file.js");
+  });
+
+  it("formats files that aren't in the index yet whole", async () => {
+    gitMocked.isInIndex.mockReturnValue(false);
+
+    const output = await cleanText("file.js", Buffer.from(staged), baseOptions);
+
+    expect(output.toString()).toBe(
+      "const a = 1;\nconst b = 2;\nconst c = 3;\n",
+    );
+    expect(gitMocked.getIndexContent).not.toHaveBeenCalled();
+  });
+
+  it("follows the override matching the file", async () => {
+    gitMocked.getIndexContent.mockReturnValue(
+      "const a   =   1;\nconst b   =   1;\nconst c   =   3;\n",
+    );
+    const input = Buffer.from(staged);
+
+    const whole = await cleanText("src/file.js", input, {
+      ...baseOptions,
+      overrides: [{ files: "src/**", mode: "whole" }],
+    });
+    const skipped = await cleanText("legacy/file.js", input, {
+      ...baseOptions,
+      overrides: [{ files: "legacy/**", mode: "skip" }],
+    });
+
+    expect(whole.toString()).toBe("const a = 1;\nconst b = 2;\nconst c = 3;\n");
+    expect(skipped).toBe(input);
+  });
+
+  it("passes content without a parser through byte for byte", async () => {
+    const input = Buffer.from([0xff, 0xfe, 0x00, 0x01]);
+
+    expect(await cleanText("image.bin", input, baseOptions)).toBe(input);
+  });
+
+  it("passes the input through when something fails", async () => {
+    const consoleSpy = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    gitMocked.getIndexContent.mockImplementation(() => {
+      throw new Error("bad object");
+    });
+    const input = Buffer.from(staged);
+
+    expect(await cleanText("file.js", input, baseOptions)).toBe(input);
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "[pretty-damn-quick] file.js: bad object",
+    );
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,84 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { formatChangedText } from "./format";
+import { getIndexContent, getNoIndexDiff, isInIndex } from "./git";
+import { LineOffsets } from "./offsets";
+import { resolveOverrides } from "./overrides";
+import type { PrettierOptionsCLI } from "./processors";
+import { Range } from "./Range";
+
+// Diffs the content being staged against the index version of `file`, or
+// against nothing for files not in the index yet. The temporary files have
+// no extension, so no `.gitattributes` filter applies to them in turn.
+function getDiffFromIndex(file: string, text: string): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pdq-filter-"));
+  const indexPath = path.join(dir, "index");
+  const stagedPath = path.join(dir, "staged");
+
+  try {
+    fs.writeFileSync(indexPath, isInIndex(file) ? getIndexContent(file) : "");
+    fs.writeFileSync(stagedPath, text);
+
+    return getNoIndexDiff(indexPath, stagedPath);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// The content of a git clean filter (see gitattributes(5)): `input` is `file`
+// as it is about to be staged, and only the lines that differ from the index
+// get formatted, unless an override asks for the whole file or to skip it.
+// Any failure passes the input through unchanged, so staging never breaks on
+// a file Prettier can't handle.
+async function cleanText(
+  file: string,
+  input: Buffer,
+  options: PrettierOptionsCLI,
+): Promise<Buffer> {
+  const text = input.toString();
+
+  try {
+    const override = options.overrides?.length
+      ? resolveOverrides([file], options.overrides).get(file)
+      : undefined;
+
+    if (override === "skip") {
+      return input;
+    }
+
+    const formatted = await formatChangedText(text, {
+      filepath: file,
+      ...(override === "whole"
+        ? { ranges: [new Range(1, new LineOffsets(text).totalLines() + 1)] }
+        : { diff: getDiffFromIndex(file, text) }),
+      markers:
+        override === "markers" ||
+        (override === undefined && options.lines === "experimental"),
+      nodes: options.lines === "node",
+      wholeFileThreshold: options.wholeFileThreshold,
+    });
+
+    // Keep the original bytes for anything left alone, such as files
+    // without a parser that may not even be text.
+    return formatted === text ? input : Buffer.from(formatted);
+  } catch (err: unknown) {
+    // stdout is the filtered content, so errors can only go to stderr.
+    console.error(
+      `[pretty-damn-quick] ${file}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+
+    return input;
+  }
+}
+
+// Reads the content from stdin and writes the filtered one to stdout, as git
+// expects from a `filter.<driver>.clean` command.
+async function runCleanFilter(
+  file: string,
+  options: PrettierOptionsCLI,
+): Promise<void> {
+  process.stdout.write(await cleanText(file, fs.readFileSync(0), options));
+}
+
+export { cleanText, runCleanFilter };
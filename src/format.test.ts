@@ -0,0 +1,105 @@
+import * as child_process from "child_process";
+import { formatCharRanges, formatChangedText } from "./format";
+import { Range } from "./Range";
+
+jest.mock("child_process");
+
+const source = "const a   =   1;\nconst b   =   2;\nconst c   =   3;\n";
+const diff = `diff --git a/file.js b/file.js
+index 4886604..83c3014 100644
+--- a/file.js
++++ b/file.js
+@@ -2 +2 @@
+-const b = 1;
++const b   =   2;`;
+
+describe("formatChangedText", () => {
+  it("formats only the ranges of the given diff", async () => {
+    expect(await formatChangedText(source, { filepath: "file.js", diff })).toBe(
+      "const a   =   1;\nconst b = 2;\nconst c   =   3;\n",
+    );
+  });
+
+  it.each([
+    ["ranges", false],
+    ["markers", true],
+  ])("formats only the given ranges using %s", async (_, markers) => {
+    expect(
+      await formatChangedText(source, {
+        filepath: "file.js",
+        ranges: [new Range(1, 2), new Range(3, 4)],
+        markers,
+      }),
+    ).toBe("const a = 1;\nconst b   =   2;\nconst c = 3;\n");
+  });
+
+  it("widens the ranges to the statements they cut through", async () => {
+    expect(
+      await formatChangedText("foo(\n  a,\n  b   );\nbar(  1  );\n", {
+        filepath: "file.js",
+        ranges: [new Range(2, 3)],
+        nodes: true,
+      }),
+    ).toBe("foo(a, b);\nbar(  1  );\n");
+  });
+
+  it("formats the whole text when one range covers it", async () => {
+    expect(
+      await formatChangedText(source, {
+        filepath: "file.js",
+        ranges: [new Range(1, 4)],
+      }),
+    ).toBe("const a = 1;\nconst b = 2;\nconst c = 3;\n");
+  });
+
+  it("formats the whole text above the whole-file threshold", async () => {
+    expect(
+      await formatChangedText(source, {
+        filepath: "file.js",
+        ranges: [new Range(1, 2), new Range(3, 4)],
+        wholeFileThreshold: 60,
+      }),
+    ).toBe("const a = 1;\nconst b = 2;\nconst c = 3;\n");
+  });
+
+  it.each([
+    ["there are no ranges", "file.js", ""],
+    ["no parser can be inferred", "file.unknown", diff],
+  ])("returns the source untouched when %s", async (_, filepath, diff) => {
+    expect(await formatChangedText(source, { filepath, diff })).toBe(source);
+  });
+
+  it("never invokes git", async () => {
+    await formatChangedText(source, { filepath: "file.js", diff });
+
+    expect(jest.mocked(child_process).execFileSync).not.toHaveBeenCalled();
+  });
+});
+
+describe("formatCharRanges", () => {
+  it("formats the given character ranges bottom-up", async () => {
+    const text = "const a   =   1;\nconst b   =   2;\nconst c   =   3;\n";
+
+    expect(
+      await formatCharRanges(
+        text,
+        [
+          { start: 44, end: 45 },
+          { start: 14, end: 15 },
+        ],
+        { filepath: "file.js" },
+      ),
+    ).toEqual({
+      formatted: "const a = 1;\nconst b   =   2;\nconst c = 3;\n",
+      changed: [new Range(3, 4), new Range(1, 2)],
+    });
+  });
+
+  it("reports no change when the ranges are formatted", async () => {
+    expect(
+      await formatCharRanges("const a = 1;\n", [{ start: 10, end: 11 }], {
+        filepath: "file.js",
+      }),
+    ).toEqual({ formatted: "const a = 1;\n", changed: [] });
+  });
+});
@@ -0,0 +1,219 @@
+import * as fs from "fs";
+import * as path from "path";
+import prettier from "prettier";
+import { getRangesForDiff, mergeFiles } from "./git";
+import { insertMarkers, mergeMarkedSections } from "./marker";
+import { widenToNodes } from "./nodes";
+import { LineOffsets } from "./offsets";
+import { formatText } from "./pool";
+import { Range } from "./Range";
+
+type FormatChangedTextOptions = {
+  filepath: string; // used for parser inference and config resolution only
+  diff?: string; // unified diff of the file; its `+` hunks are formatted
+  ranges?: Range[]; // alternatively, the changed ranges themselves
+  markers?: boolean; // use the marker strategy ('experimental') directly
+  nodes?: boolean; // widen the ranges to the statements they cut through ('node')
+  wholeFileThreshold?: number; // format whole when more (%) of the lines changed
+};
+
+// Character offsets into a text, `end` excluded.
+type CharRange = { start: number; end: number };
+
+// A single hunk spanning the whole file is cheaper and safer to format whole.
+const coversWholeFile = (ranges: Range[], text: string): boolean => {
+  const [range] = ranges;
+
+  return (
+    ranges.length === 1 &&
+    range?.rangeStart() === 0 &&
+    Math.abs(range.rangeEnd() - new LineOffsets(text).totalLines()) <= 1
+  );
+};
+
+// The percentage of the lines of `text` the ranges cover, not counting the
+// empty "line" after a final newline.
+const getChangedShare = (ranges: Range[], text: string): number => {
+  const changed = ranges.reduce(
+    (sum, range) => sum + range.rangeEnd() - range.rangeStart(),
+    0,
+  );
+  const total = new LineOffsets(text.replace(/\r?\n$/u, "")).totalLines();
+
+  return (100 * changed) / total;
+};
+
+// Formats the given ranges (sorted bottom-up, so earlier offsets stay valid)
+// one by one, returning the result and the ranges whose text changed.
+async function formatRanges(
+  text: string,
+  ranges: Range[],
+  options: prettier.Options,
+): Promise<{ formatted: string; changed: Range[] }> {
+  const lineOffsets = new LineOffsets(text);
+  const changed: Range[] = [];
+  let formatted = text;
+
+  for (const range of ranges) {
+    const start = lineOffsets.getOffset(range.rangeStart());
+    const end = lineOffsets.getOffset(range.rangeEnd()) - 1;
+
+    formatted = await formatText(formatted, {
+      ...options,
+      rangeStart: start,
+      rangeEnd: end,
+    });
+
+    const originalSegment = text.slice(start, end);
+    const currentSegment = formatted.slice(start, end);
+    const isNoChange =
+      originalSegment.length === currentSegment.length &&
+      originalSegment === currentSegment;
+
+    if (!isNoChange) {
+      changed.push(range);
+    }
+  }
+
+  return { formatted, changed };
+}
+
+// Like `formatRanges`, but for character ranges (sorted bottom-up too); the
+// changed ones are returned as the lines they span.
+async function formatCharRanges(
+  text: string,
+  ranges: CharRange[],
+  options: prettier.Options,
+): Promise<{ formatted: string; changed: Range[] }> {
+  const lineOffsets = new LineOffsets(text);
+  const changed: Range[] = [];
+  let formatted = text;
+
+  for (const { start, end } of ranges) {
+    const previous = formatted;
+
+    formatted = await formatText(formatted, {
+      ...options,
+      rangeStart: start,
+      rangeEnd: end,
+    });
+
+    if (formatted !== previous) {
+      changed.push(
+        new Range(
+          lineOffsets.getPosition(start).line + 1,
+          lineOffsets.getPosition(Math.max(start, end - 1)).line + 2,
+        ),
+      );
+    }
+  }
+
+  return { formatted, changed };
+}
+
+// Formats the whole file with markers around the ranges, then keeps only the
+// marked sections from the formatted output.
+async function formatMarkedRanges(
+  text: string,
+  ranges: Range[],
+  parser: string,
+  options: prettier.Options,
+): Promise<string> {
+  const markedText = insertMarkers(text, ranges, parser);
+  const formattedWithMarkers = await formatText(markedText, options);
+
+  return mergeMarkedSections(markedText, formattedWithMarkers, parser);
+}
+
+// In-memory counterpart of `processFileByRanges`/`processRangesWithMarkers`:
+// no file is read or written (besides Prettier's config lookup) and git is
+// never invoked.
+async function formatChangedText(
+  source: string,
+  options: FormatChangedTextOptions,
+): Promise<string> {
+  const { filepath } = options;
+  const info = await prettier.getFileInfo(filepath);
+  const config = await prettier.resolveConfig(filepath);
+
+  if (info.ignored || info.inferredParser === null) {
+    return source;
+  }
+
+  const prettierOptions = { ...(config ?? {}), filepath };
+  const changedRanges = [
+    ...(options.ranges ?? getRangesForDiff(options.diff ?? "")),
+  ].sort((a, b) => b.rangeStart() - a.rangeStart());
+
+  if (changedRanges.length === 0) {
+    return source;
+  }
+
+  const ranges = options.nodes
+    ? await widenToNodes(source, changedRanges, prettierOptions)
+    : changedRanges;
+
+  if (
+    coversWholeFile(ranges, source) ||
+    (options.wholeFileThreshold !== undefined &&
+      getChangedShare(ranges, source) > options.wholeFileThreshold)
+  ) {
+    return prettier.format(source, prettierOptions);
+  }
+
+  if (options.markers) {
+    return formatMarkedRanges(
+      source,
+      ranges,
+      info.inferredParser,
+      prettierOptions,
+    );
+  }
+
+  try {
+    return (await formatRanges(source, ranges, prettierOptions)).formatted;
+  } catch (error) {
+    return formatMarkedRanges(
+      source,
+      ranges,
+      info.inferredParser,
+      prettierOptions,
+    );
+  }
+}
+
+// Applies the change from `original` to `formatted` onto `text`, through
+// temporary files for `git merge-file`; undefined when they overlap.
+function applyFormatting(
+  dir: string,
+  text: string,
+  original: string,
+  formatted: string,
+): string | undefined {
+  if (text === original) {
+    return formatted;
+  }
+
+  const [textPath, originalPath, formattedPath] = [
+    "text",
+    "original",
+    "formatted",
+  ].map((name) => path.join(dir, name)) as [string, string, string];
+
+  fs.writeFileSync(textPath, text);
+  fs.writeFileSync(originalPath, original);
+  fs.writeFileSync(formattedPath, formatted);
+
+  return mergeFiles(textPath, originalPath, formattedPath);
+}
+
+export {
+  applyFormatting,
+  coversWholeFile,
+  getChangedShare,
+  formatCharRanges,
+  formatRanges,
+  formatMarkedRanges,
+  formatChangedText,
+};
+export type { CharRange, FormatChangedTextOptions };
@@ -1,17 +1,51 @@
 import * as child_process from "child_process";
 import path from "path";
 import {
+  cherryPick,
+  createStash,
+  getAuthorIdent,
+  getBlameLines,
+  getCommitList,
+  getCommitRangeRangesByFile,
+  getConflictedFileList,
+  getDefaultBranch,
   getDiffFileList,
   getDiffForFile,
+  getDiffRangesByFile,
+  getIndexContent,
+  getMergeBase,
+  getNoIndexDiff,
+  getNewFileList,
+  getParentOrEmptyTree,
   getRangesForDiff,
+  getRangesForFiles,
+  getRevisionContent,
+  getUnpushedCommits,
   getUntrackedFileList,
+  getWordChangesForDiff,
   hasCleanIndex,
+  hasCommit,
+  isInIndex,
+  mapRangesThroughDiff,
+  mergeFiles,
+  parseBlame,
+  parseDate,
+  recommit,
+  resolveCommit,
+  toRepoPath,
+  unquoteCPath,
+  updateIndexContent,
 } from "./git";
 import {
+  diff,
   diffFileList,
   hunks,
   includingOnlyRemovals,
+  quotedPaths,
+  renamed,
+  unusualFileList,
 } from "./__fixtures__/diff";
+import { Range } from "./Range";
 
 jest.mock("child_process");
 
@@ -46,7 +80,220 @@ describe("getRangesForDiff", () => {
   });
 });
 
+describe("getWordChangesForDiff", () => {
+  it("finds the words each hunk added or removed", () => {
+    const wordDiff = [
+      "diff --git a/w.js b/w.js",
+      "--- a/w.js",
+      "+++ b/w.js",
+      "@@ -1 +1 @@",
+      " const a = ",
+      "-foo(1,",
+      "+bar(1,",
+      "  2);",
+      "~",
+      "@@ -3 +3,2 @@ const b = 2;",
+      " const c = ",
+      "+4 + ",
+      "-3;",
+      " 5;",
+      "~",
+      "+new line",
+      "~",
+      "@@ -6 +7 @@",
+      " x(1, ",
+      "-2",
+      " );",
+      "~",
+      "@@ -9 +9,0 @@",
+      "-removed line",
+      "~",
+      "",
+    ].join("\n");
+
+    expect(getWordChangesForDiff(wordDiff)).toEqual([
+      { line: 1, column: 10, length: 6 },
+      { line: 3, column: 10, length: 4 },
+      { line: 4, column: 0, length: 8 },
+      { line: 7, column: 5, length: 0 },
+    ]);
+  });
+});
+
+describe("getRangesForFiles", () => {
+  it("maps each file of a multi-file diff to its own ranges", () => {
+    const rangesByFile = getRangesForFiles(`${diff}\n${hunks}`);
+
+    expect([...rangesByFile.keys()]).toEqual(
+      ["fixme.js", "dirty.js"].map((p) => path.resolve(p)),
+    );
+    expect(rangesByFile.get(path.resolve("fixme.js"))).toEqual(
+      getRangesForDiff(diff),
+    );
+    expect(rangesByFile.get(path.resolve("dirty.js"))).toEqual(
+      getRangesForDiff(hunks),
+    );
+  });
+
+  it("handles C-quoted and tab-terminated paths", () => {
+    expect([...getRangesForFiles(quotedPaths).keys()]).toEqual(
+      ["new\nline é.js", "with space.js"].map((p) => path.resolve(p)),
+    );
+  });
+
+  it("maps the hunks of renamed files onto the new path", () => {
+    const rangesByFile = getRangesForFiles(renamed);
+
+    expect([...rangesByFile.keys()]).toEqual([path.resolve("src/new name.js")]);
+    expect(rangesByFile.get(path.resolve("src/new name.js"))).toEqual([
+      new Range(3, 5),
+    ]);
+  });
+
+  it("returns an empty map for an empty diff", () => {
+    expect(getRangesForFiles("").size).toBe(0);
+  });
+});
+
+describe("mapRangesThroughDiff", () => {
+  const worktreeDiff = `diff --git a/file.js b/file.js
+--- a/file.js
++++ b/file.js
+@@ -0,0 +1,2 @@
++inserted
++inserted
+@@ -4 +6 @@
+-changed
++changed again
+@@ -8,2 +9,0 @@
+-removed
+-removed`;
+
+  it.each([
+    ["shifts lines after insertions", [new Range(2, 4)], [new Range(4, 6)]],
+    [
+      "drops lines changed since",
+      [new Range(3, 6)],
+      [new Range(7, 8), new Range(5, 6)],
+    ],
+    ["drops removed lines", [new Range(7, 11)], [new Range(9, 11)]],
+  ])("%s", (_, ranges, expected) => {
+    expect(mapRangesThroughDiff(ranges, worktreeDiff)).toEqual(expected);
+  });
+});
+
+describe("getCommitRangeRangesByFile", () => {
+  beforeEach(() => {
+    mockedChildProcess.execFileSync.mockReset();
+  });
+
+  it("maps the range's ranges onto the working tree", () => {
+    mockedChildProcess.execFileSync
+      .mockReturnValueOnce(Buffer.from(diff))
+      .mockReturnValueOnce(
+        Buffer.from(`diff --git a/fixme.js b/fixme.js
+--- a/fixme.js
++++ b/fixme.js
+@@ -0,0 +1 @@
++inserted`),
+      );
+
+    const rangesByFile = getCommitRangeRangesByFile("main..feature");
+    const [rangeArgs, tipArgs] = mockedChildProcess.execFileSync.mock.calls.map(
+      ([, args]) => args ?? [],
+    );
+
+    expect(rangeArgs).toContain("main..feature");
+    expect(tipArgs).toContain("feature");
+    expect(rangesByFile.get(path.resolve("fixme.js"))).toEqual(
+      getRangesForDiff(diff).map(
+        (range) => new Range(range.rangeStart() + 2, range.rangeEnd() + 2),
+      ),
+    );
+  });
+
+  it.each([
+    ["main..", "HEAD"],
+    ["main...feature", "feature"],
+  ])("diffs the working tree against the tip of %s", (range, tip) => {
+    mockedChildProcess.execFileSync.mockReturnValue(Buffer.from(""));
+
+    getCommitRangeRangesByFile(range);
+
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toContain(
+      tip,
+    );
+  });
+
+  it("rejects a single commit", () => {
+    expect(() => getCommitRangeRangesByFile("main")).toThrow(
+      "Expected a commit range like A..B, but got 'main'.",
+    );
+  });
+});
+
+describe("unquoteCPath", () => {
+  it.each([
+    ["b/plain.js", "b/plain.js"],
+    ['"b/tab\\there.js"', "b/tab\there.js"],
+    ['"b/quote\\"back\\\\slash.js"', 'b/quote"back\\slash.js'],
+    ['"b/caf\\303\\251.js"', "b/café.js"],
+    ['"b/\\346\\227\\245\\346\\234\\254.js"', "b/日本.js"],
+  ])("unquoteCPath(%j) === %j", (quoted, expected) => {
+    expect(unquoteCPath(quoted)).toBe(expected);
+  });
+});
+
+describe("getDiffRangesByFile", () => {
+  it("runs a single diff over all files", () => {
+    jest.mock("child_process").resetAllMocks();
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from(`${diff}\n${hunks}`),
+    );
+
+    const rangesByFile = getDiffRangesByFile(true, "main");
+    const lastCall = mockedChildProcess.execFileSync.mock.calls.at(-1);
+
+    expect(mockedChildProcess.execFileSync).toHaveBeenCalledTimes(1);
+    expect(lastCall?.[1]?.slice(-3)).toEqual(["--unified=0", "main", "--"]);
+    expect(rangesByFile.size).toBe(2);
+  });
+
+  it("pins the path prefixes regardless of diff.mnemonicPrefix or diff.noprefix", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(diff));
+
+    getDiffRangesByFile(false);
+    const args = mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1] ?? [];
+
+    expect(args).toContain("--src-prefix=a/");
+    expect(args).toContain("--dst-prefix=b/");
+  });
+
+  it.each([
+    [undefined, "--find-renames=50%"],
+    [80, "--find-renames=80%"],
+  ])("detects renames with threshold %p", (threshold, findRenames) => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(renamed));
+
+    getDiffRangesByFile(false, undefined, threshold);
+    const args = mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1] ?? [];
+
+    expect(args).toContain("--diff-filter=ACMR");
+    expect(args).toContain(findRenames);
+  });
+});
+
 describe("getDiffForFile", () => {
+  it("splits changed lines into words with wordDiff", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(hunks));
+
+    getDiffForFile("./mockfile.js", false, undefined, 50, true);
+
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toContain(
+      "--word-diff=porcelain",
+    );
+  });
+
   it("should use HEAD as default commit when staged is true and no commit is defined", () => {
     mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(hunks));
     process.env.ESLINT_PLUGIN_DIFF_COMMIT = undefined;
@@ -67,7 +314,7 @@ describe("getDiffForFile", () => {
 
     const expectedCommand = "git";
     const expectedArgs =
-      "diff --diff-algorithm=histogram --diff-filter=ACM --find-renames=100% --no-ext-diff --relative --staged --unified=0 1234567";
+      "diff --diff-algorithm=histogram --diff-filter=ACMR --dst-prefix=b/ --find-renames=50% --no-ext-diff --relative --src-prefix=a/ --staged --unified=0 1234567";
 
     const lastCall = mockedChildProcess.execFileSync.mock.calls.at(-1);
     const [command, argsIncludingFile = []] = lastCall ?? [""];
@@ -87,7 +334,7 @@ describe("getDiffForFile", () => {
 
     const expectedCommand = "git";
     const expectedArgs =
-      "diff --diff-algorithm=histogram --diff-filter=ACM --find-renames=100% --no-ext-diff --relative --unified=0";
+      "diff --diff-algorithm=histogram --diff-filter=ACMR --dst-prefix=b/ --find-renames=50% --no-ext-diff --relative --src-prefix=a/ --unified=0";
 
     const lastCall = mockedChildProcess.execFileSync.mock.calls.at(-1);
     const [command, argsIncludingFile = []] = lastCall ?? [""];
@@ -99,6 +346,25 @@ describe("getDiffForFile", () => {
     expect(diffFromFile).toContain("@@");
   });
 
+  it.each([
+    [true, "--staged --unified=0 main"],
+    [false, "--unified=0 main"],
+  ])(
+    "should diff against an explicit base when staged is %s",
+    (staged, expectedTail) => {
+      mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(hunks));
+      process.env.ESLINT_PLUGIN_DIFF_COMMIT = "1234567";
+
+      getDiffForFile("./mockfile.js", staged, "main");
+
+      const lastCall = mockedChildProcess.execFileSync.mock.calls.at(-1);
+      const args = (lastCall?.[1] ?? []).slice(0, -2);
+
+      expect(args.join(" ")).toMatch(new RegExp(`${expectedTail}$`));
+      expect(args).not.toContain("1234567");
+    },
+  );
+
   it("should use INDEX when no commit was defined for only --changed", () => {
     mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(hunks));
     process.env.ESLINT_PLUGIN_DIFF_COMMIT = undefined;
@@ -107,7 +373,7 @@ describe("getDiffForFile", () => {
 
     const expectedCommand = "git";
     const expectedArgs =
-      "diff --diff-algorithm=histogram --diff-filter=ACM --find-renames=100% --no-ext-diff --relative --unified=0";
+      "diff --diff-algorithm=histogram --diff-filter=ACMR --dst-prefix=b/ --find-renames=50% --no-ext-diff --relative --src-prefix=a/ --unified=0";
 
     const lastCall = mockedChildProcess.execFileSync.mock.calls.at(-1);
     const [command, argsIncludingFile = []] = lastCall ?? [""];
@@ -138,6 +404,387 @@ describe("hasCleanIndex", () => {
   });
 });
 
+describe("isInIndex", () => {
+  it("is true only when the index lists the path", () => {
+    mockedChildProcess.execFileSync
+      .mockReturnValueOnce(Buffer.from("src/file.js\0"))
+      .mockReturnValueOnce(Buffer.from(""));
+
+    expect(isInIndex("src/file.js")).toBe(true);
+    expect(isInIndex("src/new.js")).toBe(false);
+  });
+});
+
+describe("getNoIndexDiff", () => {
+  it("returns the diff git reports through exit code 1", () => {
+    mockedChildProcess.execFileSync.mockImplementationOnce(() => {
+      throw Object.assign(new Error("exit 1"), {
+        status: 1,
+        stdout: Buffer.from(hunks),
+      });
+    });
+
+    expect(getNoIndexDiff("/tmp/a", "/tmp/b")).toBe(hunks);
+  });
+
+  it("returns an empty diff for identical files", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(""));
+
+    expect(getNoIndexDiff("/tmp/a", "/tmp/b")).toBe("");
+  });
+
+  it("throws on other errors", () => {
+    mockedChildProcess.execFileSync.mockImplementationOnce(() => {
+      throw Object.assign(new Error("exit 128"), { status: 128 });
+    });
+
+    expect(() => getNoIndexDiff("/tmp/a", "/tmp/b")).toThrow("exit 128");
+  });
+});
+
+describe("toRepoPath", () => {
+  it("makes paths relative to the repo root, with forward slashes", () => {
+    expect(toRepoPath("src/a.js", path.dirname(process.cwd()))).toBe(
+      `${path.basename(process.cwd())}/src/a.js`,
+    );
+  });
+});
+
+describe("getIndexContent", () => {
+  it("reads the staged blob relative to the cwd", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from("staged"));
+
+    expect(getIndexContent(path.resolve("src/file.js"))).toBe("staged");
+    expect(mockedChildProcess.execFileSync).toHaveBeenLastCalledWith(
+      "git",
+      ["show", ":./src/file.js"],
+      expect.anything(),
+    );
+  });
+});
+
+describe("getRevisionContent", () => {
+  it("reads the file as of the revision", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from("pushed"));
+
+    expect(getRevisionContent(path.resolve("src/file.js"), "abc123")).toBe(
+      "pushed",
+    );
+    expect(mockedChildProcess.execFileSync).toHaveBeenLastCalledWith(
+      "git",
+      ["show", "abc123:./src/file.js"],
+      expect.anything(),
+    );
+  });
+});
+
+describe("getUnpushedCommits", () => {
+  it("lists the commits no remote has, oldest first", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from("c1\nc2\n"),
+    );
+
+    expect(getUnpushedCommits("abc123")).toEqual(["c1", "c2"]);
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toEqual(
+      expect.arrayContaining(["abc123", "--not", "--remotes"]),
+    );
+  });
+});
+
+describe("getParentOrEmptyTree", () => {
+  it("returns the parent commit", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from("c0\n"));
+
+    expect(getParentOrEmptyTree("c1")).toBe("c0");
+  });
+
+  it("returns the empty tree for root commits", () => {
+    mockedChildProcess.execFileSync
+      .mockImplementationOnce(() => {
+        throw new Error("no parent");
+      })
+      .mockReturnValueOnce(Buffer.from("4b825dc\n"));
+
+    expect(getParentOrEmptyTree("c1")).toBe("4b825dc");
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toEqual([
+      "hash-object",
+      "-t",
+      "tree",
+      "--stdin",
+    ]);
+  });
+});
+
+describe("getBlameLines", () => {
+  it("blames the given contents from stdin", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(""));
+
+    getBlameLines("a.js", "staged\n");
+
+    const [, args, options] = mockedChildProcess.execFileSync.mock.calls.at(
+      -1,
+    ) as [string, string[], { input?: string }];
+    expect(args).toEqual([
+      "blame",
+      "--porcelain",
+      "--contents=-",
+      "--",
+      "a.js",
+    ]);
+    expect(options.input).toBe("staged\n");
+  });
+});
+
+describe("hasCommit", () => {
+  it("tells whether the commit is in the object store", () => {
+    mockedChildProcess.execFileSync
+      .mockReturnValueOnce(Buffer.from(""))
+      .mockImplementationOnce(() => {
+        throw new Error("not a valid object");
+      });
+
+    expect(hasCommit("c1")).toBe(true);
+    expect(hasCommit("c2")).toBe(false);
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toEqual([
+      "cat-file",
+      "-e",
+      "c2^{commit}",
+    ]);
+  });
+});
+
+describe("getCommitList", () => {
+  it.each([
+    [false, ["rev-list", "--reverse", "--topo-order", "a..b"]],
+    [true, ["rev-list", "--reverse", "--topo-order", "--merges", "a..b"]],
+  ])("lists the commits of a range (merges only: %p)", (mergesOnly, args) => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from("c1\nc2\n"),
+    );
+
+    expect(getCommitList("a..b", mergesOnly)).toEqual(["c1", "c2"]);
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toEqual(
+      args,
+    );
+  });
+});
+
+describe("resolveCommit", () => {
+  it("throws a readable error for unknown revisions", () => {
+    mockedChildProcess.execFileSync.mockImplementationOnce(() => {
+      throw new Error("fatal");
+    });
+
+    expect(() => resolveCommit("nope")).toThrow("'nope' is not a commit.");
+  });
+});
+
+describe("parseBlame", () => {
+  const sha1 = "1".repeat(40);
+  const zero = "0".repeat(40);
+
+  it("attaches each commit's details to all of its lines", () => {
+    const output = [
+      `${sha1} 1 1 2`,
+      "author Jane Doe",
+      "author-mail <jane@example.com>",
+      "author-time 1700000000",
+      "summary Add things",
+      "filename a.js",
+      "\tconst a = 1;",
+      `${zero} 2 2 1`,
+      "author Not Committed Yet",
+      "author-mail <not.committed.yet>",
+      "author-time 1800000000",
+      "filename a.js",
+      "\tconst b = 2;",
+      `${sha1} 2 3`,
+      "filename a.js",
+      "\tconst c = 3;",
+      "",
+    ].join("\n");
+
+    expect(parseBlame(output)).toEqual([
+      {
+        line: 1,
+        author: "Jane Doe",
+        mail: "<jane@example.com>",
+        time: 1700000000,
+        committed: true,
+      },
+      {
+        line: 2,
+        author: "Not Committed Yet",
+        mail: "<not.committed.yet>",
+        time: 1800000000,
+        committed: false,
+      },
+      {
+        line: 3,
+        author: "Jane Doe",
+        mail: "<jane@example.com>",
+        time: 1700000000,
+        committed: true,
+      },
+    ]);
+  });
+});
+
+describe("getAuthorIdent", () => {
+  it("splits git's author identity", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from("Jane Doe <jane@example.com> 1700000000 +0100\n"),
+    );
+
+    expect(getAuthorIdent()).toEqual({
+      author: "Jane Doe",
+      mail: "<jane@example.com>",
+      time: 1700000000,
+    });
+  });
+});
+
+describe("parseDate", () => {
+  it("lets git parse the date", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from("--max-age=1700000000\n"),
+    );
+
+    expect(parseDate("2 weeks ago")).toBe(1700000000);
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toEqual([
+      "rev-parse",
+      "--since=2 weeks ago",
+    ]);
+  });
+});
+
+describe("cherryPick", () => {
+  it("aborts the cherry-pick when the commit doesn't apply", () => {
+    mockedChildProcess.execFileSync
+      .mockImplementationOnce(() => {
+        throw new Error("conflict");
+      })
+      .mockReturnValueOnce(Buffer.from(""));
+
+    expect(cherryPick("c1")).toBe(false);
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toEqual([
+      "cherry-pick",
+      "--abort",
+    ]);
+  });
+
+  it("merges like a plain cherry-pick", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(""));
+
+    expect(cherryPick("c1")).toBe(true);
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toEqual([
+      "cherry-pick",
+      "--allow-empty",
+      "--keep-redundant-commits",
+      "c1",
+    ]);
+  });
+});
+
+describe("recommit", () => {
+  it("commits the working tree on top of the parent with the commit's message", () => {
+    mockedChildProcess.execFileSync.mockReturnValue(Buffer.from(""));
+
+    recommit("c1", "tip");
+
+    const calls = mockedChildProcess.execFileSync.mock.calls.slice(-2);
+    expect(calls[0]?.[1]).toEqual(["reset", "--soft", "--quiet", "tip"]);
+    expect(calls[1]?.[1]).toEqual(
+      expect.arrayContaining(["commit", "--all", "--reuse-message=c1"]),
+    );
+  });
+});
+
+describe("updateIndexContent", () => {
+  it("writes a blob and points the index entry at it, keeping the mode", () => {
+    jest.mock("child_process").resetAllMocks();
+    mockedChildProcess.execFileSync
+      .mockReturnValueOnce(Buffer.from("100755 0123abc 0\tsrc/file.js\n"))
+      .mockReturnValueOnce(Buffer.from("fedcba9\n"))
+      .mockReturnValueOnce(Buffer.from(""));
+
+    updateIndexContent("src/file.js", "formatted");
+
+    const calls = mockedChildProcess.execFileSync.mock.calls;
+    expect(calls[1]?.[1]).toEqual(["hash-object", "-w", "--stdin"]);
+    expect(calls[1]?.[2]).toEqual(
+      expect.objectContaining({ input: "formatted" }),
+    );
+    expect(calls[2]?.[1]).toEqual([
+      "update-index",
+      "--cacheinfo",
+      "100755,fedcba9,src/file.js",
+    ]);
+  });
+
+  it("refuses paths that aren't in the index", () => {
+    jest.mock("child_process").resetAllMocks();
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(""));
+
+    expect(() => updateIndexContent("new.js", "formatted")).toThrow(
+      "Can't update new.js in the index, as it isn't in it.",
+    );
+    expect(mockedChildProcess.execFileSync).toHaveBeenCalledTimes(1);
+  });
+
+  it("can update another index file", () => {
+    jest.mock("child_process").resetAllMocks();
+    mockedChildProcess.execFileSync
+      .mockReturnValueOnce(Buffer.from("100644 0123abc 0\tsrc/file.js\n"))
+      .mockReturnValue(Buffer.from(""));
+
+    updateIndexContent("src/file.js", "formatted", "/tmp/index");
+
+    expect(
+      mockedChildProcess.execFileSync.mock.calls.map(
+        ([, , options]) => (options as { env?: NodeJS.ProcessEnv }).env,
+      ),
+    ).toEqual(
+      Array(3).fill(expect.objectContaining({ GIT_INDEX_FILE: "/tmp/index" })),
+    );
+  });
+});
+
+describe("createStash", () => {
+  it("returns the stash commit, or undefined without local changes", () => {
+    mockedChildProcess.execFileSync
+      .mockReturnValueOnce(Buffer.from("abc123\n"))
+      .mockReturnValueOnce(Buffer.from(""));
+
+    expect(createStash()).toBe("abc123");
+    expect(createStash()).toBeUndefined();
+  });
+});
+
+describe("mergeFiles", () => {
+  it("returns the merged text", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from("merged"));
+
+    expect(mergeFiles("a", "base", "b")).toBe("merged");
+  });
+
+  it("returns undefined on conflicts", () => {
+    mockedChildProcess.execFileSync.mockImplementationOnce(() => {
+      throw Object.assign(new Error("2 conflicts"), { status: 2 });
+    });
+
+    expect(mergeFiles("a", "base", "b")).toBeUndefined();
+  });
+
+  it("throws on errors", () => {
+    mockedChildProcess.execFileSync.mockImplementationOnce(() => {
+      throw Object.assign(new Error("no such file"), { status: 255 });
+    });
+
+    expect(() => mergeFiles("a", "base", "b")).toThrow("no such file");
+  });
+});
+
 describe("getDiffFileList", () => {
   it("should get the list of staged files", () => {
     jest.mock("child_process").resetAllMocks();
@@ -156,7 +803,7 @@ describe("getDiffFileList", () => {
   it("should use HEAD when no commit was defined and staged is true", () => {
     jest.mock("child_process").resetAllMocks();
     mockedChildProcess.execFileSync.mockReturnValueOnce(
-      Buffer.from("file1\nfile2\nfile3"),
+      Buffer.from("file1\0file2\0file3"),
     );
     process.env.ESLINT_PLUGIN_DIFF_COMMIT = undefined;
     const fileList = getDiffFileList(true);
@@ -171,6 +818,84 @@ describe("getDiffFileList", () => {
   });
 });
 
+describe("getNewFileList", () => {
+  it("lists only the files added since the base", () => {
+    jest.mock("child_process").resetAllMocks();
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from("new.js\0"),
+    );
+
+    const fileList = getNewFileList(false, "main");
+    const args = mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1] ?? [];
+
+    expect(args).toContain("--diff-filter=A");
+    expect(args).toContain("main");
+    expect(fileList).toEqual([path.resolve("new.js")]);
+  });
+});
+
+describe("getConflictedFileList", () => {
+  it("lists the unmerged paths", () => {
+    jest.mock("child_process").resetAllMocks();
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from("conflict.js\0"),
+    );
+
+    const fileList = getConflictedFileList();
+    const args = mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1] ?? [];
+
+    expect(args).toContain("--diff-filter=U");
+    expect(fileList).toEqual([path.resolve("conflict.js")]);
+  });
+});
+
+describe("getDiffFileList with base", () => {
+  it("should diff the working tree against the base when staged is false", () => {
+    jest.mock("child_process").resetAllMocks();
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from(diffFileList),
+    );
+    getDiffFileList(false, "v1.0.0");
+    const lastCall = mockedChildProcess.execFileSync.mock.calls.at(-1);
+    const args = lastCall?.[1] ?? [];
+    expect(args).toContain("v1.0.0");
+    expect(args).not.toContain("--staged");
+  });
+});
+
+describe("getMergeBase", () => {
+  it("returns the trimmed merge-base of HEAD and the ref", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from("abc123\n"),
+    );
+
+    expect(getMergeBase("origin/main")).toBe("abc123");
+    expect(mockedChildProcess.execFileSync).toHaveBeenLastCalledWith(
+      "git",
+      ["merge-base", "HEAD", "origin/main"],
+      expect.anything(),
+    );
+  });
+});
+
+describe("getDefaultBranch", () => {
+  it("reads the default branch from origin/HEAD", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from("origin/main\n"),
+    );
+
+    expect(getDefaultBranch()).toBe("origin/main");
+  });
+
+  it("throws a helpful error when origin/HEAD is not set", () => {
+    mockedChildProcess.execFileSync.mockImplementationOnce(() => {
+      throw Error("mocked error");
+    });
+
+    expect(() => getDefaultBranch()).toThrow(/--branch main/u);
+  });
+});
+
 describe("getUntrackedFileList", () => {
   it("should get the list of untracked files", () => {
     jest.mock("child_process").resetAllMocks();
@@ -201,3 +926,51 @@ describe("getUntrackedFileList", () => {
     expect(getUntrackedFileList(staged)).toEqual([]);
   });
 });
+
+describe("NUL-delimited file lists", () => {
+  const expected = [
+    " leading space.js",
+    "trailing space.js ",
+    "new\nline.js",
+    "café.js",
+  ].map((p) => path.resolve(p));
+
+  beforeEach(() => {
+    mockedChildProcess.execFileSync.mockReset();
+  });
+
+  it("keeps unusual names intact in diff file lists", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from(unusualFileList),
+    );
+
+    expect(getDiffFileList(false)).toEqual(expected);
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toContain(
+      "-z",
+    );
+  });
+
+  it("keeps unusual names intact in untracked file lists", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(
+      Buffer.from(unusualFileList),
+    );
+
+    expect(getUntrackedFileList(false, true)).toEqual(expected);
+  });
+
+  it("returns no files for empty output", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(""));
+
+    expect(getDiffFileList(true)).toEqual([]);
+  });
+
+  it("passes file paths as literal pathspecs", () => {
+    mockedChildProcess.execFileSync.mockReturnValueOnce(Buffer.from(""));
+
+    getDiffForFile("a[1].js", false);
+
+    expect(mockedChildProcess.execFileSync.mock.calls.at(-1)?.[1]).toContain(
+      `:(literal)${path.resolve("a[1].js")}`,
+    );
+  });
+});
@@ -1,24 +1,97 @@
 import * as child_process from "child_process";
-import { resolve } from "path";
+import { relative, resolve, sep } from "path";
 import { Range } from "./Range";
 import { END_LINE } from "./marker";
 
 const COMMAND = "git";
 const OPTIONS = { maxBuffer: 1024 * 1024 * 100 };
+const NUL = "\0";
+// Git's own default similarity index for rename detection, in percent.
+const DEFAULT_RENAME_THRESHOLD = 50;
 
-const getDiffForFile = (filePath: string, staged: boolean): string => {
+// Glob characters are legal in filenames, so never let git expand them.
+const toPathspec = (filePath: string): string =>
+  `:(literal)${resolve(filePath)}`;
+
+const splitNul = (output: Buffer): string[] =>
+  output
+    .toString()
+    .split(NUL)
+    .filter((filePath) => filePath !== "");
+
+const C_ESCAPES: Record<string, number> = {
+  a: 0x07,
+  b: 0x08,
+  t: 0x09,
+  n: 0x0a,
+  v: 0x0b,
+  f: 0x0c,
+  r: 0x0d,
+  '"': 0x22,
+  "\\": 0x5c,
+};
+
+// Git C-quotes paths in diff headers when they contain special characters,
+// e.g. `"b/new\nline \303\251.js"`; octal escapes are UTF-8 bytes.
+const unquoteCPath = (quoted: string): string => {
+  if (!quoted.startsWith('"') || !quoted.endsWith('"')) {
+    return quoted;
+  }
+
+  const bytes: number[] = [];
+  const body = quoted.slice(1, -1);
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i] as string;
+
+    if (char !== "\\") {
+      bytes.push(...Buffer.from(char));
+    } else if (/^[0-7]{3}$/u.test(body.slice(i + 1, i + 4))) {
+      bytes.push(parseInt(body.slice(i + 1, i + 4), 8));
+      i += 3;
+    } else {
+      const next = body[++i] ?? "";
+      bytes.push(C_ESCAPES[next] ?? next.charCodeAt(0));
+    }
+  }
+
+  return Buffer.from(bytes).toString();
+};
+
+// An explicit base always wins; otherwise staged diffs compare the index
+// against ESLINT_PLUGIN_DIFF_COMMIT (or HEAD), and unstaged diffs compare
+// the working tree against the index. An unstaged base may also be a commit
+// range (`A..B`), which diffs the two commits instead of the working tree.
+const getDiffBase = (staged: boolean, base?: string): string | undefined =>
+  base ??
+  (staged ? (process.env.ESLINT_PLUGIN_DIFF_COMMIT ?? "HEAD") : undefined);
+
+// Git only detects a rename when both paths match the pathspec, so a renamed
+// file diffs as new here; `getDiffRangesByFile` sees both sides.
+// With `wordDiff`, changed lines are split into words (see
+// `getWordChangesForDiff`).
+const getDiffForFile = (
+  filePath: string,
+  staged: boolean,
+  base?: string,
+  renameThreshold = DEFAULT_RENAME_THRESHOLD,
+  wordDiff = false,
+): string => {
   const args = [
     "diff",
     "--diff-algorithm=histogram",
-    "--diff-filter=ACM",
-    "--find-renames=100%",
+    "--diff-filter=ACMR",
+    "--dst-prefix=b/",
+    `--find-renames=${renameThreshold}%`,
     "--no-ext-diff",
     "--relative",
+    "--src-prefix=a/",
     staged && "--staged",
     "--unified=0",
-    staged && (process.env.ESLINT_PLUGIN_DIFF_COMMIT ?? "HEAD"),
+    wordDiff && "--word-diff=porcelain",
+    getDiffBase(staged, base),
     "--",
-    resolve(filePath),
+    toPathspec(filePath),
   ].reduce<string[]>(
     (acc, cur) => (typeof cur === "string" ? [...acc, cur] : acc),
     [],
@@ -27,29 +100,124 @@ const getDiffForFile = (filePath: string, staged: boolean): string => {
   return child_process.execFileSync(COMMAND, args, OPTIONS).toString();
 };
 
-const getDiffFileList = (staged: boolean): string[] => {
+// The prefixes are fixed, as `getDiffsByFile` parses paths from `+++ b/`
+// lines, whatever `diff.mnemonicPrefix` or `diff.noprefix` say.
+const getDiff = (
+  staged: boolean,
+  base: string | undefined,
+  renameThreshold: number,
+): string => {
   const args = [
     "diff",
     "--diff-algorithm=histogram",
-    "--diff-filter=ACM",
-    "--find-renames=100%",
+    "--diff-filter=ACMR",
+    "--dst-prefix=b/",
+    `--find-renames=${renameThreshold}%`,
+    "--no-ext-diff",
+    "--relative",
+    "--src-prefix=a/",
+    staged && "--staged",
+    "--unified=0",
+    getDiffBase(staged, base),
+    "--",
+  ].reduce<string[]>(
+    (acc, cur) => (typeof cur === "string" ? [...acc, cur] : acc),
+    [],
+  );
+
+  return child_process.execFileSync(COMMAND, args, OPTIONS).toString();
+};
+
+// Diffs all changed files at once; see `getRangesForFiles` for the parsing.
+const getDiffRangesByFile = (
+  staged: boolean,
+  base?: string,
+  renameThreshold = DEFAULT_RENAME_THRESHOLD,
+): Map<string, Range[]> =>
+  getRangesForFiles(getDiff(staged, base, renameThreshold));
+
+// `A..B` and `A...B` both diff against B; a missing B means HEAD.
+const getRangeTip = (commitRange: string): string => {
+  const match = /^.*?\.{2,3}(?<tip>.*)$/u.exec(commitRange);
+
+  if (match === null) {
+    throw Error(`Expected a commit range like A..B, but got '${commitRange}'.`);
+  }
+
+  return match.groups?.tip || "HEAD";
+};
+
+// The lines added across a commit range, moved to where they are now in the
+// working tree. Lines changed again since the range's tip are dropped.
+const getCommitRangeRangesByFile = (
+  commitRange: string,
+  renameThreshold = DEFAULT_RENAME_THRESHOLD,
+): Map<string, Range[]> => {
+  const tip = getRangeTip(commitRange);
+  const rangesByFile = getDiffRangesByFile(false, commitRange, renameThreshold);
+  const worktreeDiffs = getDiffsByFile(getDiff(false, tip, renameThreshold));
+
+  for (const [filePath, ranges] of rangesByFile) {
+    const worktreeDiff = worktreeDiffs.get(filePath);
+
+    if (worktreeDiff !== undefined) {
+      rangesByFile.set(filePath, mapRangesThroughDiff(ranges, worktreeDiff));
+    }
+  }
+
+  return rangesByFile;
+};
+
+const getDiffFileList = (
+  staged: boolean,
+  base?: string,
+  renameThreshold = DEFAULT_RENAME_THRESHOLD,
+  diffFilter = "ACMR",
+): string[] => {
+  const args = [
+    "diff",
+    "--diff-algorithm=histogram",
+    `--diff-filter=${diffFilter}`,
+    `--find-renames=${renameThreshold}%`,
     "--name-only",
     "--no-ext-diff",
     "--relative",
     staged && "--staged",
-    staged && (process.env.ESLINT_PLUGIN_DIFF_COMMIT ?? "HEAD"),
+    "-z",
+    getDiffBase(staged, base),
     "--",
   ].reduce<string[]>(
     (acc, cur) => (typeof cur === "string" ? [...acc, cur] : acc),
     [],
   );
 
-  return child_process
-    .execFileSync(COMMAND, args, OPTIONS)
-    .toString()
-    .trim()
-    .split(END_LINE)
-    .map((filePath) => resolve(filePath));
+  return splitNul(child_process.execFileSync(COMMAND, args, OPTIONS)).map(
+    (filePath) => resolve(filePath),
+  );
+};
+
+// Files added since the base: staged, or intent-to-add (`git add -N`) ones.
+// Renamed files similar enough to their old path are not new.
+const getNewFileList = (
+  staged: boolean,
+  base?: string,
+  renameThreshold = DEFAULT_RENAME_THRESHOLD,
+): string[] => getDiffFileList(staged, base, renameThreshold, "A");
+
+// Paths left unmerged by a stopped merge, rebase, cherry-pick, etc.
+const getConflictedFileList = (): string[] => {
+  const args = [
+    "diff",
+    "--diff-filter=U",
+    "--name-only",
+    "--no-ext-diff",
+    "--relative",
+    "-z",
+  ];
+
+  return splitNul(child_process.execFileSync(COMMAND, args, OPTIONS)).map(
+    (filePath) => resolve(filePath),
+  );
 };
 
 const hasCleanIndex = (filePath: string): boolean => {
@@ -60,7 +228,7 @@ const hasCleanIndex = (filePath: string): boolean => {
     "--relative",
     "--unified=0",
     "--",
-    resolve(filePath),
+    toPathspec(filePath),
   ];
 
   try {
@@ -72,12 +240,470 @@ const hasCleanIndex = (filePath: string): boolean => {
   return true;
 };
 
+// A path relative to the repository root, with forward slashes, as globs
+// and CODEOWNERS patterns expect it.
+const toRepoPath = (filePath: string, root: string): string =>
+  relative(root, resolve(filePath)).split(sep).join("/");
+
+// Paths prefixed with "./" are resolved against the cwd rather than the repo
+// root when used in `:<path>` index revisions.
+const toIndexPath = (filePath: string): string =>
+  `./${relative(process.cwd(), resolve(filePath))}`;
+
+const getIndexContent = (filePath: string): string => {
+  const args = ["show", `:${toIndexPath(filePath)}`];
+
+  return child_process.execFileSync(COMMAND, args, OPTIONS).toString();
+};
+
+// Whether the index has an entry (staged or not) for the path.
+const isInIndex = (filePath: string): boolean => {
+  const args = ["ls-files", "--cached", "-z", "--", toPathspec(filePath)];
+
+  return (
+    splitNul(child_process.execFileSync(COMMAND, args, OPTIONS)).length > 0
+  );
+};
+
+// Diffs two files that aren't tracked by git. `git diff --no-index` exits
+// with 1 whenever they differ, so only other exit codes are errors.
+const getNoIndexDiff = (oldPath: string, newPath: string): string => {
+  const args = [
+    "diff",
+    "--diff-algorithm=histogram",
+    "--no-ext-diff",
+    "--no-index",
+    "--unified=0",
+    "--",
+    oldPath,
+    newPath,
+  ];
+
+  try {
+    return child_process.execFileSync(COMMAND, args, OPTIONS).toString();
+  } catch (err: unknown) {
+    const { status, stdout } = err as { status?: number; stdout?: Buffer };
+
+    if (status === 1 && stdout !== undefined) {
+      return stdout.toString();
+    }
+
+    throw err;
+  }
+};
+
+const getRevisionContent = (filePath: string, revision: string): string => {
+  const args = ["show", `${revision}:${toIndexPath(filePath)}`];
+
+  return child_process.execFileSync(COMMAND, args, OPTIONS).toString();
+};
+
+// Options to run git against another index file than the repository's own.
+const withIndexFile = (indexFile?: string) =>
+  indexFile === undefined
+    ? OPTIONS
+    : { ...OPTIONS, env: { ...process.env, GIT_INDEX_FILE: indexFile } };
+
+const updateIndexContent = (
+  filePath: string,
+  content: string,
+  indexFile?: string,
+): void => {
+  const options = withIndexFile(indexFile);
+  const stageArgs = ["ls-files", "--stage", "--", toPathspec(filePath)];
+  const [mode] = child_process
+    .execFileSync(COMMAND, stageArgs, options)
+    .toString()
+    .split(" ");
+
+  if (!mode) {
+    throw Error(`Can't update ${filePath} in the index, as it isn't in it.`);
+  }
+
+  const hashArgs = ["hash-object", "-w", "--stdin"];
+  const sha = child_process
+    .execFileSync(COMMAND, hashArgs, { ...options, input: content })
+    .toString()
+    .trim();
+
+  const updateArgs = [
+    "update-index",
+    "--cacheinfo",
+    `${mode},${sha},${relative(process.cwd(), resolve(filePath))}`,
+  ];
+  child_process.execFileSync(COMMAND, updateArgs, options);
+};
+
+// Whether `revision` has a file at the path.
+const isInRevision = (filePath: string, revision: string): boolean => {
+  const args = [
+    "ls-tree",
+    "-z",
+    "--name-only",
+    revision,
+    "--",
+    relative(process.cwd(), resolve(filePath)),
+  ];
+
+  return (
+    splitNul(child_process.execFileSync(COMMAND, args, OPTIONS)).length > 0
+  );
+};
+
+// A commit of the working tree (tracked files only) and index, without
+// touching either; undefined when there are no local changes.
+const createStash = (): string | undefined => {
+  const sha = child_process
+    .execFileSync(COMMAND, ["stash", "create"], OPTIONS)
+    .toString()
+    .trim();
+
+  return sha === "" ? undefined : sha;
+};
+
+// Three-way merges the changes from `basePath` to `otherPath` into
+// `currentPath`; undefined when they conflict. git exits with the number of
+// conflicts, or a negative number (255) on errors.
+const mergeFiles = (
+  currentPath: string,
+  basePath: string,
+  otherPath: string,
+): string | undefined => {
+  const args = [
+    "merge-file",
+    "--quiet",
+    "--stdout",
+    currentPath,
+    basePath,
+    otherPath,
+  ];
+
+  try {
+    return child_process.execFileSync(COMMAND, args, OPTIONS).toString();
+  } catch (err: unknown) {
+    const { status } = err as { status?: number };
+
+    if (status !== undefined && status > 0 && status < 128) {
+      return undefined;
+    }
+
+    throw err;
+  }
+};
+
+const readTree = (treeish: string, indexFile: string): void => {
+  const args = ["read-tree", treeish];
+
+  child_process.execFileSync(COMMAND, args, withIndexFile(indexFile));
+};
+
+const writeTree = (indexFile: string): string => {
+  const args = ["write-tree"];
+
+  return child_process
+    .execFileSync(COMMAND, args, withIndexFile(indexFile))
+    .toString()
+    .trim();
+};
+
+const commitTree = (tree: string, parent: string, message: string): string => {
+  const args = ["commit-tree", tree, "-p", parent, "-m", message];
+
+  return child_process.execFileSync(COMMAND, args, OPTIONS).toString().trim();
+};
+
+// Moves HEAD (or the branch it points to) from `oldCommit` to `commit`,
+// failing if something else moved it in the meantime.
+const updateHead = (
+  commit: string,
+  oldCommit: string,
+  reason: string,
+): void => {
+  const args = ["update-ref", "-m", reason, "HEAD", commit, oldCommit];
+
+  child_process.execFileSync(COMMAND, args, OPTIONS);
+};
+
+const getCommitSubject = (rev: string): string => {
+  const args = ["log", "-1", "--format=%s", resolveCommit(rev)];
+
+  return child_process.execFileSync(COMMAND, args, OPTIONS).toString().trim();
+};
+
+const getRepoRoot = (): string => {
+  const args = ["rev-parse", "--show-toplevel"];
+
+  return child_process.execFileSync(COMMAND, args, OPTIONS).toString().trim();
+};
+
 const fetchFromOrigin = (branch: string) => {
   const args = ["fetch", "--quiet", "origin", branch];
 
   child_process.execFileSync(COMMAND, args, OPTIONS);
 };
 
+const getMergeBase = (ref: string): string => {
+  const args = ["merge-base", "HEAD", ref];
+
+  return child_process.execFileSync(COMMAND, args, OPTIONS).toString().trim();
+};
+
+const getDefaultBranch = (): string => {
+  const args = [
+    "symbolic-ref",
+    "--quiet",
+    "--short",
+    "refs/remotes/origin/HEAD",
+  ];
+
+  try {
+    return child_process.execFileSync(COMMAND, args, OPTIONS).toString().trim();
+  } catch (err: unknown) {
+    throw Error(
+      "Couldn't detect the default branch from origin/HEAD. Pass a target explicitly (e.g. --branch main) or run 'git remote set-head origin --auto'.",
+    );
+  }
+};
+
+// Commits reachable from `sha` that no remote-tracking branch has, oldest first.
+const getUnpushedCommits = (sha: string): string[] => {
+  const args = [
+    "rev-list",
+    "--reverse",
+    "--topo-order",
+    sha,
+    "--not",
+    "--remotes",
+  ];
+
+  return child_process
+    .execFileSync(COMMAND, args, OPTIONS)
+    .toString()
+    .split(END_LINE)
+    .filter((commit) => commit !== "");
+};
+
+// Whether the object store has `sha` as a commit, e.g. a remote tip that
+// wasn't fetched yet.
+const hasCommit = (sha: string): boolean => {
+  const args = ["cat-file", "-e", `${sha}^{commit}`];
+
+  try {
+    child_process.execFileSync(COMMAND, args, { ...OPTIONS, stdio: "pipe" });
+  } catch (err: unknown) {
+    return false;
+  }
+
+  return true;
+};
+
+// The first parent of `sha`, or the empty tree for a root commit.
+const getParentOrEmptyTree = (sha: string): string => {
+  const args = ["rev-parse", "--verify", "--quiet", `${sha}^`];
+
+  try {
+    return child_process.execFileSync(COMMAND, args, OPTIONS).toString().trim();
+  } catch (err: unknown) {
+    const treeArgs = ["hash-object", "-t", "tree", "--stdin"];
+
+    return child_process
+      .execFileSync(COMMAND, treeArgs, { ...OPTIONS, input: "" })
+      .toString()
+      .trim();
+  }
+};
+
+// Commits of a range, oldest first; `mergesOnly` lists just its merges.
+const getCommitList = (commitRange: string, mergesOnly = false): string[] => {
+  const args = [
+    "rev-list",
+    "--reverse",
+    "--topo-order",
+    mergesOnly && "--merges",
+    commitRange,
+  ].reduce<string[]>(
+    (acc, cur) => (typeof cur === "string" ? [...acc, cur] : acc),
+    [],
+  );
+
+  return child_process
+    .execFileSync(COMMAND, args, OPTIONS)
+    .toString()
+    .split(END_LINE)
+    .filter((commit) => commit !== "");
+};
+
+const resolveCommit = (rev: string): string => {
+  const args = ["rev-parse", "--verify", "--quiet", `${rev}^{commit}`];
+
+  try {
+    return child_process.execFileSync(COMMAND, args, OPTIONS).toString().trim();
+  } catch (err: unknown) {
+    throw Error(`'${rev}' is not a commit.`);
+  }
+};
+
+// The cwd relative to the top of the working tree, e.g. "src/" or "".
+const getCwdPrefix = (): string => {
+  const args = ["rev-parse", "--show-prefix"];
+
+  return child_process.execFileSync(COMMAND, args, OPTIONS).toString().trim();
+};
+
+const addWorktree = (dir: string, commit: string): void => {
+  const args = ["worktree", "add", "--detach", "--quiet", dir, commit];
+
+  child_process.execFileSync(COMMAND, args, OPTIONS);
+};
+
+const removeWorktree = (dir: string): void => {
+  const args = ["worktree", "remove", "--force", dir];
+
+  child_process.execFileSync(COMMAND, args, OPTIONS);
+};
+
+// Returns false, with the cherry-pick aborted, when the commit doesn't apply.
+const cherryPick = (commit: string): boolean => {
+  const args = [
+    "cherry-pick",
+    "--allow-empty",
+    "--keep-redundant-commits",
+    commit,
+  ];
+
+  try {
+    child_process.execFileSync(COMMAND, args, { ...OPTIONS, stdio: "pipe" });
+  } catch (err: unknown) {
+    child_process.execFileSync(COMMAND, ["cherry-pick", "--abort"], OPTIONS);
+    return false;
+  }
+
+  return true;
+};
+
+const checkoutDetached = (commit: string): void => {
+  const args = ["checkout", "--detach", "--quiet", commit];
+
+  child_process.execFileSync(COMMAND, args, { ...OPTIONS, stdio: "pipe" });
+};
+
+// Commits the working tree of a checked out `commit` on top of `parent`
+// instead, keeping the commit's message and author.
+const recommit = (commit: string, parent: string): void => {
+  child_process.execFileSync(
+    COMMAND,
+    ["reset", "--soft", "--quiet", parent],
+    OPTIONS,
+  );
+  child_process.execFileSync(
+    COMMAND,
+    [
+      "commit",
+      "--all",
+      "--allow-empty",
+      "--no-verify",
+      "--quiet",
+      `--reuse-message=${commit}`,
+    ],
+    OPTIONS,
+  );
+};
+
+// Moves the current branch to `commit`, refusing (and changing nothing) if
+// that would overwrite local changes.
+const resetKeep = (commit: string): void => {
+  const args = ["reset", "--keep", "--quiet", commit];
+
+  child_process.execFileSync(COMMAND, args, { ...OPTIONS, stdio: "pipe" });
+};
+
+type BlameLine = {
+  line: number; // 1-based line number in the working tree
+  author: string;
+  mail: string; // e.g. "<jane@example.com>"
+  time: number; // author time, in seconds since the epoch
+  committed: boolean; // false for lines changed in the working tree
+};
+
+// Parses `git blame --porcelain`: each line gets a header with its commit,
+// followed by that commit's details the first time it shows up only.
+const parseBlame = (output: string): BlameLine[] => {
+  const commits = new Map<string, Omit<BlameLine, "line">>();
+  const lines: BlameLine[] = [];
+  let commit: Omit<BlameLine, "line"> | undefined;
+  let line = 0;
+
+  for (const row of output.split(END_LINE)) {
+    const header = /^([0-9a-f]{40,64}) \d+ (\d+)/u.exec(row);
+
+    if (header) {
+      const [, sha = "", finalLine = ""] = header;
+      commit = commits.get(sha) ?? {
+        author: "",
+        mail: "",
+        time: 0,
+        committed: !/^0+$/u.test(sha),
+      };
+      commits.set(sha, commit);
+      line = Number(finalLine);
+    } else if (commit && row.startsWith("\t")) {
+      lines.push({ ...commit, line });
+    } else if (commit) {
+      const [key, ...value] = row.split(" ");
+
+      if (key === "author") commit.author = value.join(" ");
+      if (key === "author-mail") commit.mail = value.join(" ");
+      if (key === "author-time") commit.time = Number(value[0]);
+    }
+  }
+
+  return lines;
+};
+
+// Blames the working tree version of a file that exists in HEAD.
+// Blames `contents` instead of the working tree file when given, e.g. the
+// index version of a file.
+const getBlameLines = (filePath: string, contents?: string): BlameLine[] => {
+  const args = [
+    "blame",
+    "--porcelain",
+    contents !== undefined && "--contents=-",
+    "--",
+    relative(process.cwd(), resolve(filePath)),
+  ].reduce<string[]>((acc, arg) => (arg ? [...acc, arg] : acc), []);
+
+  return parseBlame(
+    child_process
+      .execFileSync(COMMAND, args, { ...OPTIONS, input: contents })
+      .toString(),
+  );
+};
+
+// Who git would record as the author of a commit made now.
+const getAuthorIdent = (): Omit<BlameLine, "line" | "committed"> => {
+  const args = ["var", "GIT_AUTHOR_IDENT"];
+  const ident = child_process
+    .execFileSync(COMMAND, args, OPTIONS)
+    .toString()
+    .trim();
+  const [, author = "", mail = "", time = "0"] =
+    /^(.*) (<.*>) (\d+) [+-]\d+$/u.exec(ident) ?? [];
+
+  return { author, mail, time: Number(time) };
+};
+
+// Parses a date the way `git log --since` does (e.g. "2 weeks ago" or
+// "2024-01-31"), returning seconds since the epoch.
+const parseDate = (date: string): number => {
+  const args = ["rev-parse", `--since=${date}`];
+  const output = child_process
+    .execFileSync(COMMAND, args, OPTIONS)
+    .toString()
+    .trim();
+
+  return Number(output.replace("--max-age=", ""));
+};
+
 let untrackedFileListCache: string[] | undefined;
 const getUntrackedFileList = (
   staged: boolean,
@@ -88,19 +714,25 @@ const getUntrackedFileList = (
   }
 
   if (untrackedFileListCache === undefined || shouldRefresh) {
-    const args = ["ls-files", "--exclude-standard", "--others"];
+    const args = ["ls-files", "--exclude-standard", "--others", "-z"];
 
-    untrackedFileListCache = child_process
-      .execFileSync(COMMAND, args, OPTIONS)
-      .toString()
-      .trim()
-      .split(END_LINE)
-      .map((filePath) => resolve(filePath));
+    untrackedFileListCache = splitNul(
+      child_process.execFileSync(COMMAND, args, OPTIONS),
+    ).map((filePath) => resolve(filePath));
   }
 
   return untrackedFileListCache;
 };
 
+// Files in the index under the cwd, whether they have changes or not.
+const getTrackedFileList = (): string[] => {
+  const args = ["ls-files", "--cached", "-z"];
+
+  return splitNul(child_process.execFileSync(COMMAND, args, OPTIONS)).map(
+    (filePath) => resolve(filePath),
+  );
+};
+
 const isHunkHeader = (input: string) => {
   const hunkHeaderRE = /^@@ [^@]* @@/u;
 
@@ -159,11 +791,211 @@ const getRangesForDiff = (diff: string): Range[] =>
     }, [])
     .sort((a, b) => b.rangeStart() - a.rangeStart());
 
+// Where a `--word-diff=porcelain` diff added `length` characters to the new
+// version of a file: 1-based line, 0-based column. Removed words are empty
+// changes where they used to be.
+type WordChange = { line: number; column: number; length: number };
+
+const getWordChangesForDiff = (diff: string): WordChange[] => {
+  const changes: WordChange[] = [];
+  let line = 0;
+  let column = 0;
+  let isInHunk = false;
+
+  for (const row of diff.split(END_LINE)) {
+    const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/u.exec(row);
+
+    if (hunk !== null) {
+      line = parseInt(hunk[1] ?? "0");
+      column = 0;
+      // Hunks removing whole lines leave nothing to format around.
+      isInHunk = hunk[2] !== "0";
+      continue;
+    }
+
+    if (row.startsWith("diff ")) {
+      isInHunk = false;
+    }
+
+    if (!isInHunk) {
+      continue;
+    }
+
+    const text = row.slice(1);
+    const previous = changes[changes.length - 1];
+    // A removed and an added word next to each other are a single change.
+    const isAdjacent =
+      previous?.line === line &&
+      previous.column + previous.length === column &&
+      (previous.length === 0 || row.startsWith("-"));
+
+    if (row.startsWith(" ")) {
+      column += text.length;
+    } else if (row.startsWith("+") && isAdjacent) {
+      previous.length += text.length;
+      column += text.length;
+    } else if (row.startsWith("+")) {
+      changes.push({ line, column, length: text.length });
+      column += text.length;
+    } else if (row.startsWith("-") && !isAdjacent) {
+      changes.push({ line, column, length: 0 });
+    } else if (row.startsWith("~")) {
+      line += 1;
+      column = 0;
+    }
+  }
+
+  return changes;
+};
+
+type Hunk = { oldStart: number; oldCount: number; newCount: number };
+
+const getHunksForDiff = (diff: string): Hunk[] =>
+  diff.split(END_LINE).flatMap((line) => {
+    const hunk =
+      /^@@ -(?<oldStart>\d+)(?:,(?<oldCount>\d+))? \+\d+(?:,(?<newCount>\d+))? @@/u.exec(
+        line,
+      );
+
+    if (hunk?.groups === undefined) {
+      return [];
+    }
+
+    return [
+      {
+        oldStart: parseInt(hunk.groups.oldStart ?? "0"),
+        oldCount: parseInt(hunk.groups.oldCount ?? "1"),
+        newCount: parseInt(hunk.groups.newCount ?? "1"),
+      },
+    ];
+  });
+
+// Maps a line of the diff's old side onto its new side, or to `undefined`
+// when the diff changed or removed it.
+const mapLineThroughHunks = (
+  line: number,
+  hunks: Hunk[],
+): number | undefined => {
+  let shift = 0;
+
+  for (const { oldStart, oldCount, newCount } of hunks) {
+    if (line >= oldStart && line < oldStart + oldCount) {
+      return undefined;
+    }
+
+    // Pure insertions (`-N,0`) go after line N, so they only move later lines
+    if (line >= oldStart + Math.max(oldCount, 1)) {
+      shift += newCount - oldCount;
+    }
+  }
+
+  return line + shift;
+};
+
+// Moves ranges of a file's old content to where its new content has them.
+const mapRangesThroughDiff = (ranges: Range[], diff: string): Range[] => {
+  const hunks = getHunksForDiff(diff);
+  const lines = ranges
+    .flatMap((range) =>
+      Array.from(
+        { length: range.rangeEnd() - range.rangeStart() },
+        (_, i) => range.rangeStart() + 1 + i,
+      ),
+    )
+    .map((line) => mapLineThroughHunks(line, hunks))
+    .filter((line): line is number => line !== undefined)
+    .sort((a, b) => a - b);
+
+  return lines
+    .reduce<Array<[number, number]>>((spans, line) => {
+      const last = spans[spans.length - 1];
+
+      if (last !== undefined && line <= last[1]) {
+        last[1] = Math.max(last[1], line + 1);
+      } else {
+        spans.push([line, line + 1]);
+      }
+
+      return spans;
+    }, [])
+    .map(([start, end]) => new Range(start, end))
+    .sort((a, b) => b.rangeStart() - a.rangeStart());
+};
+
+// Splits a multi-file diff at each `diff --git` header, keyed by the file's
+// resolved path taken from its `+++ b/<path>` line. For renames that's the
+// new path, which the hunks' `+` lines refer to.
+const getDiffsByFile = (diff: string): Map<string, string> =>
+  diff.split(/^(?=diff --git )/mu).reduce((diffsByFile, fileDiff) => {
+    const newPath = /^\+\+\+ (?<path>"b\/.*"|b\/.*?)\t?$/mu.exec(fileDiff)
+      ?.groups?.path;
+
+    if (newPath !== undefined) {
+      const filePath = unquoteCPath(newPath).slice("b/".length);
+      diffsByFile.set(resolve(filePath), fileDiff);
+    }
+
+    return diffsByFile;
+  }, new Map<string, string>());
+
+// Maps each file of a multi-file diff to its own ranges.
+const getRangesForFiles = (diff: string): Map<string, Range[]> =>
+  new Map(
+    [...getDiffsByFile(diff)].map(([filePath, fileDiff]) => [
+      filePath,
+      getRangesForDiff(fileDiff),
+    ]),
+  );
+
 export {
+  DEFAULT_RENAME_THRESHOLD,
+  addWorktree,
+  checkoutDetached,
+  cherryPick,
+  commitTree,
+  createStash,
   fetchFromOrigin,
+  getAuthorIdent,
+  getBlameLines,
+  getCommitList,
+  getCommitRangeRangesByFile,
+  getCommitSubject,
+  getConflictedFileList,
+  getCwdPrefix,
+  getDefaultBranch,
   getDiffFileList,
   getDiffForFile,
+  getDiffRangesByFile,
+  getIndexContent,
+  getMergeBase,
+  getNewFileList,
+  getNoIndexDiff,
+  getParentOrEmptyTree,
   getRangesForDiff,
+  getRangesForFiles,
+  getRepoRoot,
+  getRevisionContent,
+  getTrackedFileList,
+  getUnpushedCommits,
   getUntrackedFileList,
+  getWordChangesForDiff,
   hasCleanIndex,
+  hasCommit,
+  isInIndex,
+  isInRevision,
+  mapRangesThroughDiff,
+  mergeFiles,
+  parseBlame,
+  parseDate,
+  readTree,
+  recommit,
+  removeWorktree,
+  resetKeep,
+  resolveCommit,
+  toRepoPath,
+  unquoteCPath,
+  updateHead,
+  updateIndexContent,
+  writeTree,
 };
+export type { BlameLine, WordChange };
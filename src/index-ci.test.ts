@@ -4,8 +4,8 @@ import * as child_process from "child_process";
 
 jest.mock("child_process");
 const mockedChildProcess = jest.mocked(child_process, { shallow: true });
-mockedChildProcess.execFileSync.mockReturnValue(
-  Buffer.from("line1\nline2\nline3"),
+mockedChildProcess.execFileSync.mockImplementation((_, args) =>
+  Buffer.from(args?.[0] === "merge-base" ? "abc1234\n" : "line1\nline2\nline3"),
 );
 
 // Mock yargs and yargs/helpers to avoid ESM import error
@@ -15,8 +15,13 @@ jest.mock("yargs/helpers", () => ({ hideBin: jest.fn() }));
 import "./index";
 
 describe("CI", () => {
-  it("should diff against origin", () => {
+  it("should diff against the merge-base with origin", () => {
     expect(process.env.CI).toBeDefined();
-    expect(process.env.ESLINT_PLUGIN_DIFF_COMMIT).toEqual("origin/some-branch");
+    expect(mockedChildProcess.execFileSync).toHaveBeenCalledWith(
+      "git",
+      ["merge-base", "HEAD", "origin/some-branch"],
+      expect.anything(),
+    );
+    expect(process.env.ESLINT_PLUGIN_DIFF_COMMIT).toEqual("abc1234");
   });
 });
@@ -1,7 +1,14 @@
 process.env.CI = "true";
 import * as child_process from "child_process";
-import { type PrettierOptionsCLI } from "./processors";
-import { coerceLines } from "./index";
+import type { PdqConfig } from "./config";
+import { type PrettierOptionsCLI, type RunResult } from "./processors";
+import {
+  coerceLines,
+  coerceRenameThreshold,
+  coerceWholeFileThreshold,
+  getFailureMessage,
+  getPrePushFailureMessage,
+} from "./index";
 
 jest.mock("child_process");
 jest
@@ -9,9 +16,12 @@ jest
   .execFileSync.mockReturnValue(Buffer.from("line1\nline2\nline3"));
 
 const yargsMock = {
+  scriptName: jest.fn().mockReturnThis(),
   usage: jest.fn().mockReturnThis(),
+  command: jest.fn().mockReturnThis(),
   example: jest.fn().mockReturnThis(),
   options: jest.fn().mockReturnThis(),
+  conflicts: jest.fn().mockReturnThis(),
   help: jest.fn().mockReturnThis(),
   epilog: jest.fn().mockReturnThis(),
   parseSync: jest.fn(),
@@ -27,15 +37,18 @@ jest.mock("yargs/helpers", () => ({
 }));
 
 let runCli: (argv: string[]) => Promise<void>;
-let runPrettierSpy: jest.SpyInstance<Promise<void>, [PrettierOptionsCLI]>;
+let runPrettierSpy: jest.SpyInstance<Promise<RunResult>, [PrettierOptionsCLI]>;
+let loadConfigSpy: jest.SpyInstance<Promise<PdqConfig>, [string?]>;
 
 beforeAll(async () => {
   const mod = await import("./index");
   const processors = await import("./processors");
+  const config = await import("./config");
   runCli = mod.runCli;
   runPrettierSpy = jest
     .spyOn(processors, "runPrettier")
-    .mockResolvedValue(undefined);
+    .mockResolvedValue({ ok: true, files: [] });
+  loadConfigSpy = jest.spyOn(config, "loadConfig").mockResolvedValue({});
 });
 
 afterEach(() => {
@@ -45,7 +58,9 @@ afterEach(() => {
 
 describe("coerceLines", () => {
   it.each([
-    ["experimental", "experimental"], // special string preserved
+    ["experimental", "experimental"], // special strings preserved
+    ["node", "node"],
+    ["word", "word"],
     [true, true], // booleans preserved
     [false, false],
     ["foo", true], // other strings become true
@@ -60,6 +75,79 @@ describe("coerceLines", () => {
   });
 });
 
+describe("coerceRenameThreshold", () => {
+  it.each([0, 50, 100])("accepts %d", (input) => {
+    expect(coerceRenameThreshold(input)).toBe(input);
+  });
+
+  it.each([-1, 101, NaN])("rejects %d", (input) => {
+    expect(() => coerceRenameThreshold(input)).toThrow(
+      "--renameThreshold must be a percentage between 0 and 100",
+    );
+  });
+});
+
+describe("coerceWholeFileThreshold", () => {
+  it.each([-1, 101, NaN])("rejects %d", (input) => {
+    expect(() => coerceWholeFileThreshold(input)).toThrow(
+      "--wholeFileThreshold must be a percentage between 0 and 100",
+    );
+  });
+});
+
+describe("getFailureMessage", () => {
+  const fileResult = (status: RunResult["files"][number]["status"]) => ({
+    file: "a.js",
+    status,
+    mode: "whole" as const,
+    ranges: [],
+  });
+
+  it.each([
+    [{ ok: true, files: [] }, undefined],
+    [
+      { ok: false, files: [fileResult("errored")] },
+      "Prettier exiting error(s) occurred. See above for details.",
+    ],
+    [
+      { ok: false, files: [fileResult("needs-formatting")] },
+      "Some files are not formatted.",
+    ],
+    [
+      {
+        ok: false,
+        files: [fileResult("needs-formatting"), fileResult("conflicted")],
+      },
+      "Some files have unresolved merge conflicts.",
+    ],
+  ])("getFailureMessage(%j) === %j", (result, expected) => {
+    expect(getFailureMessage(result)).toBe(expected);
+  });
+});
+
+describe("getPrePushFailureMessage", () => {
+  const pushedRef = (ref: string, ok: boolean) => ({
+    ref,
+    commits: "a..b",
+    result: { ok, files: [] },
+  });
+
+  it.each([
+    [[], undefined],
+    [[pushedRef("refs/heads/a", true)], undefined],
+    [
+      [
+        pushedRef("refs/heads/a", false),
+        pushedRef("refs/heads/b", true),
+        pushedRef("refs/heads/c", false),
+      ],
+      "Push blocked by refs/heads/a, refs/heads/c. See above for details.",
+    ],
+  ])("getPrePushFailureMessage(%j) === %j", (refs, expected) => {
+    expect(getPrePushFailureMessage(refs)).toBe(expected);
+  });
+});
+
 describe("CLI", () => {
   it("parses CLI args and calls runPrettier with correct options", async () => {
     yargsMock.parseSync.mockReturnValue({
@@ -102,16 +190,241 @@ describe("CLI", () => {
     });
   });
 
-  it("sets pattern from positional argument", async () => {
-    yargsMock.parseSync.mockReturnValue({ _: ["src/**/*.ts"] });
+  it("sets patterns from every positional argument", async () => {
+    yargsMock.parseSync.mockReturnValue({
+      _: ["src/**/*.ts", "test/**", "!**/*.snap"],
+      ignore: ["dist/**"],
+    });
+
+    await runCli(["node", "index.js", "src/**/*.ts", "test/**", "!**/*.snap"]);
+
+    expect(runPrettierSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        patterns: ["src/**/*.ts", "test/**", "!**/*.snap"],
+        ignore: ["dist/**"],
+      }),
+    );
+  });
+
+  it("applies the project's config, with CLI flags overriding it", async () => {
+    loadConfigSpy.mockResolvedValueOnce({
+      lines: true,
+      check: true,
+      extensions: ["ts"],
+      base: "main",
+    });
+    yargsMock.parseSync.mockReturnValue({ check: false, base: "develop" });
+
+    await runCli(["node", "index.js", "--no-check", "--base", "develop"]);
+
+    expect(runPrettierSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        lines: true,
+        check: false,
+        extensions: ["ts"],
+        base: "develop",
+      }),
+    );
+  });
+
+  it("fails without running on an invalid config", async () => {
+    const log = (await import("./log")).default;
+    const logSpy = jest.spyOn(log, "error").mockImplementation(() => undefined);
+    loadConfigSpy.mockRejectedValueOnce(
+      new Error("Unknown option 'foo' in .pdqrc."),
+    );
+    yargsMock.parseSync.mockReturnValue({});
+
+    await runCli(["node", "index.js"]);
+
+    expect(logSpy).toHaveBeenCalledWith(
+      new Error("Unknown option 'foo' in .pdqrc."),
+    );
+    expect(runPrettierSpy).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    logSpy.mockRestore();
+  });
+
+  it("passes the base ref through to runPrettier", async () => {
+    yargsMock.parseSync.mockReturnValue({ changed: true, base: "main" });
+
+    await runCli(["node", "index.js", "--changed", "--base", "main"]);
+
+    expect(runPrettierSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ changed: true, base: "main" }),
+    );
+  });
+
+  it.each([
+    ["main", "main"],
+    ["", ""],
+  ])("passes --branch %j through to runPrettier", async (branch, expected) => {
+    yargsMock.parseSync.mockReturnValue({ changed: true, branch });
+
+    await runCli(["node", "index.js", "--changed", "--branch", branch]);
+
+    expect(runPrettierSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ branch: expected }),
+    );
+  });
+
+  it("passes the concurrency through to runPrettier", async () => {
+    yargsMock.parseSync.mockReturnValue({ concurrency: 4 });
+
+    await runCli(["node", "index.js", "--concurrency", "4"]);
+
+    expect(runPrettierSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ concurrency: 4 }),
+    );
+  });
+
+  it("passes the commit range through to runPrettier", async () => {
+    yargsMock.parseSync.mockReturnValue({
+      commits: "main..HEAD",
+      lastCommit: true,
+    });
+
+    await runCli(["node", "index.js", "--commits", "main..HEAD"]);
+
+    expect(runPrettierSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ commits: "main..HEAD", lastCommit: true }),
+    );
+  });
+
+  it("checks the refs read from stdin in pre-push mode", async () => {
+    const prepush = await import("./prepush");
+    const input = "refs/heads/a 1 refs/heads/a 0";
+    jest.spyOn(prepush, "readStdin").mockReturnValue(input);
+    const runPrePushSpy = jest.spyOn(prepush, "runPrePush").mockResolvedValue([
+      {
+        ref: "refs/heads/a",
+        commits: "0..1",
+        result: { ok: false, files: [] },
+      },
+    ]);
+    yargsMock.parseSync.mockReturnValue({ prePush: true });
+
+    await runCli(["node", "index.js", "--prePush"]);
+
+    expect(runPrePushSpy).toHaveBeenCalledWith(expect.anything(), input);
+    expect(runPrettierSpy).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("rebases onto the given upstream with the rebase command", async () => {
+    const rebase = await import("./rebase");
+    const runRebaseSpy = jest
+      .spyOn(rebase, "runRebase")
+      .mockResolvedValue({ head: "abc", commits: 1 });
+    yargsMock.parseSync.mockReturnValue({ _: ["rebase"], upstream: "main" });
 
-    await runCli(["node", "index.js", "src/**/*.ts"]);
+    await runCli(["node", "index.js", "rebase", "main"]);
+
+    expect(runRebaseSpy).toHaveBeenCalledWith("main", expect.anything());
+    expect(runRebaseSpy.mock.calls[0]?.[1].patterns).toBeUndefined();
+    expect(runPrettierSpy).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(0);
+  });
+
+  it("runs as a clean filter without logging to stdout", async () => {
+    const filter = await import("./filter");
+    const runCleanFilterSpy = jest
+      .spyOn(filter, "runCleanFilter")
+      .mockResolvedValue(undefined);
+    const onSpy = jest.spyOn(process, "on");
+    yargsMock.parseSync.mockReturnValue({
+      _: ["clean-filter"],
+      file: "src/a.ts",
+    });
+
+    await runCli(["node", "index.js", "clean-filter", "src/a.ts"]);
+
+    expect(runCleanFilterSpy).toHaveBeenCalledWith(
+      "src/a.ts",
+      expect.anything(),
+    );
+    expect(runCleanFilterSpy.mock.calls[0]?.[1].patterns).toBeUndefined();
+    expect(runPrettierSpy).not.toHaveBeenCalled();
+    expect(onSpy).not.toHaveBeenCalledWith("exit", expect.anything());
+    onSpy.mockRestore();
+  });
+
+  it("reports an invalid config on stderr as a clean filter", async () => {
+    const filter = await import("./filter");
+    const runCleanFilterSpy = jest.spyOn(filter, "runCleanFilter");
+    const stdoutSpy = jest.spyOn(process.stdout, "write");
+    const consoleSpy = jest
+      .spyOn(console, "error")
+      .mockImplementation(() => undefined);
+    loadConfigSpy.mockRejectedValueOnce(
+      new Error("Unknown option 'foo' in .pdqrc."),
+    );
+    yargsMock.parseSync.mockReturnValue({
+      _: ["clean-filter"],
+      file: "src/a.ts",
+    });
+
+    await runCli(["node", "index.js", "clean-filter", "src/a.ts"]);
+
+    expect(consoleSpy).toHaveBeenCalledWith(
+      "[pretty-damn-quick] Unknown option 'foo' in .pdqrc.",
+    );
+    expect(stdoutSpy).not.toHaveBeenCalled();
+    expect(runCleanFilterSpy).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+    stdoutSpy.mockRestore();
+    consoleSpy.mockRestore();
+  });
+
+  it("commits the formatting with --commit and --fixup", async () => {
+    const commit = await import("./commit");
+    const runCommitSpy = jest
+      .spyOn(commit, "runCommit")
+      .mockResolvedValue({ run: { ok: true, files: [] }, files: [] });
+    yargsMock.parseSync
+      .mockReturnValueOnce({ commit: "", blameIgnoreRevs: true })
+      .mockReturnValueOnce({ fixup: "abc" });
+
+    await runCli(["node", "index.js", "--commit", "--blameIgnoreRevs"]);
+    await runCli(["node", "index.js", "--fixup", "abc"]);
+
+    expect(runCommitSpy.mock.calls.map(([, options]) => options)).toEqual([
+      { message: "", fixup: undefined, blameIgnoreRevs: true },
+      { message: undefined, fixup: "abc", blameIgnoreRevs: undefined },
+    ]);
+    expect(runPrettierSpy).not.toHaveBeenCalled();
+  });
+
+  it("passes the rename threshold through to runPrettier", async () => {
+    yargsMock.parseSync.mockReturnValue({ renameThreshold: 30 });
+
+    await runCli(["node", "index.js", "--renameThreshold", "30"]);
 
     expect(runPrettierSpy).toHaveBeenCalledWith(
-      expect.objectContaining({ pattern: "src/**/*.ts" }),
+      expect.objectContaining({ renameThreshold: 30 }),
     );
   });
 
+  it("logs the failure and sets exit code when the result is not ok", async () => {
+    const log = (await import("./log")).default;
+    runPrettierSpy.mockResolvedValueOnce({
+      ok: false,
+      files: [
+        { file: "a.js", status: "needs-formatting", mode: "whole", ranges: [] },
+      ],
+    });
+    const logSpy = jest.spyOn(log, "error").mockImplementation(() => undefined);
+    yargsMock.parseSync.mockReturnValue({ check: true });
+
+    await runCli(["node", "index.js", "--check"]);
+
+    expect(logSpy).toHaveBeenCalledWith(
+      new Error("Some files are not formatted."),
+    );
+    expect(process.exitCode).toBe(1);
+    logSpy.mockRestore();
+  });
+
   it("logs error message and sets exit code when runPrettier throws Error", async () => {
     const log = (await import("./log")).default;
     runPrettierSpy.mockRejectedValueOnce(new Error("fail!"));
@@ -162,4 +475,12 @@ describe("exports", () => {
 
     expect(runPrettier).toBe(processors.runPrettier);
   });
+
+  it("re-exports the in-memory API", async () => {
+    const { formatChangedText, Range } = await import("./index");
+    const format = await import("./format");
+
+    expect(formatChangedText).toBe(format.formatChangedText);
+    expect(new Range(1, 2).rangeStart()).toBe(0);
+  });
 });
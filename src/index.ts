@@ -1,13 +1,30 @@
 #!/usr/bin/env node
 
-import type { PrettierOptionsCLI } from "./processors";
+import type { PrettierOptionsCLI, RunResult } from "./processors";
 import { runPrettier } from "./processors";
+import { formatChangedText } from "./format";
+import { runCommit } from "./commit";
+import { applyConfig, loadConfig, type PdqConfig } from "./config";
+import { runCleanFilter } from "./filter";
+import { readStdin, runPrePush, type PushedRefResult } from "./prepush";
+import { runRebase } from "./rebase";
+import { Range } from "./Range";
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import log, { LogLevel } from "./log";
 
 // Re-export for programmatic usage
-export { runPrettier };
+export { runPrettier, formatChangedText, Range };
+export type { FormatChangedTextOptions } from "./format";
+export type { ModeOverride, OverrideMode } from "./overrides";
+export type {
+  PrettierOptionsCLI,
+  FileStatus,
+  ProcessingMode,
+  LineRange,
+  FileResult,
+  RunResult,
+} from "./processors";
 
 // ================================
 // CLI Execution
@@ -16,26 +33,153 @@ export { runPrettier };
 
 // Exported for test coverage
 export const coerceLines = (val: unknown): PrettierOptionsCLI["lines"] => {
-  if (val === "experimental" || typeof val === "boolean") return val;
+  if (
+    val === "experimental" ||
+    val === "node" ||
+    val === "word" ||
+    typeof val === "boolean"
+  )
+    return val;
   if (typeof val === "string") return true;
   return false;
 };
 
+const coercePercentage =
+  (flag: string) =>
+  (val: number): number => {
+    if (!Number.isFinite(val) || val < 0 || val > 100) {
+      throw Error(`${flag} must be a percentage between 0 and 100`);
+    }
+    return val;
+  };
+
+// Exported for test coverage
+export const coerceRenameThreshold = coercePercentage("--renameThreshold");
+
+// Exported for test coverage
+export const coerceWholeFileThreshold = coercePercentage(
+  "--wholeFileThreshold",
+);
+
+// Exported for test coverage
+export const getFailureMessage = (result: RunResult): string | undefined => {
+  if (result.ok) return undefined;
+  if (result.files.some(({ status }) => status === "errored")) {
+    return "Prettier exiting error(s) occurred. See above for details.";
+  }
+  if (result.files.some(({ status }) => status === "conflicted")) {
+    return "Some files have unresolved merge conflicts.";
+  }
+  return "Some files are not formatted.";
+};
+
+// Exported for test coverage
+export const getPrePushFailureMessage = (
+  refs: PushedRefResult[],
+): string | undefined => {
+  const blocking = refs
+    .filter(({ result }) => !result.ok)
+    .map(({ ref }) => ref);
+  if (blocking.length === 0) return undefined;
+  return `Push blocked by ${blocking.join(", ")}. See above for details.`;
+};
+
 export async function runCli(argv: string[]): Promise<void> {
   // 1. Parse CLI Arguments
   const parsed = yargs(hideBin(argv))
-    .usage(`\npretty-damn-quick [options] [glob]`)
+    .scriptName("pretty-damn-quick")
+    .usage(`\npretty-damn-quick [options] [globs..]`)
+    .command(
+      "rebase <upstream>",
+      "Rebase the branch onto upstream, formatting the lines each commit changed",
+    )
+    .command(
+      "clean-filter <file>",
+      "Format the lines of stdin that differ from the index version of file (a git clean filter)",
+    )
     .example([
       ["pretty-damn-quick --changed", "Format all changed files in the repo"],
       ["pretty-damn-quick --staged", "Format all staged files in the repo"],
+      [
+        "pretty-damn-quick --staged --lines --restage",
+        "Format staged lines and add the fixes to the commit (pre-commit hook)",
+      ],
       [
         'pretty-damn-quick --changed "src/**/*.{ts,js}"',
         "Format changed files matching the glob pattern",
       ],
+      [
+        'pretty-damn-quick --changed "src/**" "test/**" "!**/*.snap"',
+        "Format changed files in src/ and test/, except snapshots",
+      ],
       [
         "pretty-damn-quick --changed --lines",
         "Format only changed lines in changed files",
       ],
+      [
+        "pretty-damn-quick --changed --base main",
+        "Format files changed since the main branch",
+      ],
+      [
+        "pretty-damn-quick --lines --commits main..HEAD",
+        "Format only lines added by the commits of a local feature branch",
+      ],
+      [
+        "pretty-damn-quick --check --lines --lastCommit",
+        "Check only the lines of the commit about to be amended",
+      ],
+      [
+        "pretty-damn-quick --prePush",
+        "Block pushes with unformatted new lines (in .husky/pre-push)",
+      ],
+      [
+        'pretty-damn-quick --lines --commits main..HEAD --commit "Format feature"',
+        "Commit the formatting of a feature branch on its own",
+      ],
+      [
+        "pretty-damn-quick --lines --lastCommit --fixup HEAD",
+        "Add a fixup! commit formatting the last commit's lines",
+      ],
+      [
+        "pretty-damn-quick rebase main",
+        "Rewrite the branch so each of its commits is formatted",
+      ],
+      [
+        "git config filter.pdq.clean 'pretty-damn-quick clean-filter %f'",
+        "Format changed lines on `git add` (with `*.ts filter=pdq` in .gitattributes)",
+      ],
+      [
+        'pretty-damn-quick --changed --lines --author "Jane Doe"',
+        "Format only changed lines last touched by Jane Doe",
+      ],
+      [
+        'pretty-damn-quick --author jane@example.com --since "2 weeks ago" "src/**"',
+        "Format the lines Jane wrote in the last two weeks across src/",
+      ],
+      [
+        "pretty-damn-quick --changed --owner @acme/web --explain",
+        "Format only changed files CODEOWNERS assigns to @acme/web",
+      ],
+      [
+        "pretty-damn-quick --staged --lines --renameThreshold 30",
+        "Format only changed lines, even in files moved with heavy edits",
+      ],
+      [
+        "pretty-damn-quick --changed --lines=node",
+        "Format the statements changed lines are part of",
+      ],
+      [
+        "pretty-damn-quick --changed --lines=word",
+        "Format only the words changed within lines",
+      ],
+      [
+        "pretty-damn-quick --changed --lines --wholeFileThreshold 80",
+        "Format only changed lines, but files mostly rewritten whole",
+      ],
+      [
+        "pretty-damn-quick --changed --lines --branch",
+        "Format only lines changed since the branch forked from origin/HEAD",
+      ],
     ])
     .options({
       check: {
@@ -50,17 +194,120 @@ export async function runCli(argv: string[]): Promise<void> {
         type: "boolean",
         description: "Run only on changed files",
       },
+      restage: {
+        type: "boolean",
+        description:
+          "Re-stage the formatted ranges of staged files (use with --staged)",
+      },
       trackedOnly: {
         type: "boolean",
         description: "Process only tracked files (ignore untracked files)",
-        default: false,
       },
       lines: {
         type: "string",
         description:
-          "Format only changed/staged lines (optionally pass 'experimental')",
+          "Format only changed/staged lines (optionally pass 'experimental', 'node' to widen them to the statements they cut through, or 'word' to narrow them to the changed words)",
         coerce: coerceLines,
       },
+      base: {
+        type: "string",
+        description:
+          "Diff against the given commit, branch or tag instead of the index/HEAD",
+        requiresArg: true,
+      },
+      branch: {
+        type: "string",
+        description:
+          "Diff against the merge-base with the target branch (defaults to origin/HEAD)",
+      },
+      commits: {
+        type: "string",
+        description:
+          "Run only on files changed across a commit range (e.g. 'main..HEAD')",
+        requiresArg: true,
+      },
+      lastCommit: {
+        type: "boolean",
+        description:
+          "Run only on files changed by the last commit (HEAD~1..HEAD)",
+      },
+      prePush: {
+        type: "boolean",
+        description:
+          "Check only the lines of the commits being pushed, read from a pre-push hook's stdin",
+      },
+      commit: {
+        type: "string",
+        description:
+          "Commit the formatting changes on their own, leaving other pending changes (optionally pass the message)",
+      },
+      fixup: {
+        type: "string",
+        description:
+          "Like --commit, but as a fixup! commit for the given commit (for git rebase --autosquash)",
+        requiresArg: true,
+      },
+      blameIgnoreRevs: {
+        type: "boolean",
+        description:
+          "Append whole-file formatting commits to .git-blame-ignore-revs (use with --commit)",
+      },
+      author: {
+        type: "string",
+        description:
+          "Only lines whose blame author matches this regex, like git log --author (uncommitted lines are yours)",
+        requiresArg: true,
+      },
+      since: {
+        type: "string",
+        description:
+          "Only lines authored since this date, like git log --since (e.g. '2 weeks ago')",
+        requiresArg: true,
+      },
+      owner: {
+        type: "string",
+        array: true,
+        description:
+          "Only files CODEOWNERS assigns to this owner, e.g. @org/team (repeatable)",
+        requiresArg: true,
+      },
+      codeowners: {
+        type: "string",
+        description:
+          "Path to the CODEOWNERS file (defaults to .github/, the root or docs/)",
+        requiresArg: true,
+      },
+      explain: {
+        type: "boolean",
+        description: "Log the CODEOWNERS rule that matched each file",
+      },
+      ignore: {
+        type: "string",
+        array: true,
+        description:
+          "Skip files matching this glob, relative to the repo root (repeatable)",
+        requiresArg: true,
+      },
+      concurrency: {
+        type: "number",
+        description:
+          "Number of files to process in parallel (defaults to the CPU count)",
+        requiresArg: true,
+      },
+      renameThreshold: {
+        type: "number",
+        description:
+          "Similarity (%) for a moved file to count as renamed rather than new (defaults to 50)",
+        requiresArg: true,
+        coerce: coerceRenameThreshold,
+      },
+      wholeFileThreshold: {
+        type: "number",
+        description:
+          "Format files whole when more than this share (%) of their lines changed (with --lines)",
+        requiresArg: true,
+        coerce: coerceWholeFileThreshold,
+      },
       extensions: {
         type: "string",
         description:
@@ -73,30 +320,112 @@ export async function runCli(argv: string[]): Promise<void> {
         choices: ["info", "warn", "error"],
       },
     })
+    .conflicts("base", "branch")
+    .conflicts("commits", ["base", "branch", "staged", "changed", "lastCommit"])
+    .conflicts("lastCommit", ["base", "branch", "staged", "changed"])
+    .conflicts("prePush", [
+      "base",
+      "branch",
+      "staged",
+      "changed",
+      "commits",
+      "lastCommit",
+      "author",
+      "since",
+    ])
+    .conflicts("commit", ["fixup", "check", "staged", "restage", "prePush"])
+    .conflicts("fixup", ["check", "staged", "restage", "prePush"])
+    .conflicts("blameIgnoreRevs", "fixup")
     .help()
     .epilog("Format only your changed or staged files with Prettier, fast.")
     .parseSync();
+  const subcommand = parsed._?.[0];
+  const isRebase = subcommand === "rebase";
+  const isCleanFilter = subcommand === "clean-filter";
+
+  // 2. Convert CLI Args to Options Object, over the project's config
+  let config: PdqConfig;
+
+  try {
+    config = await loadConfig();
+  } catch (err) {
+    // As a clean filter, stdout is the staged content: errors go to stderr.
+    if (isCleanFilter) {
+      console.error(
+        `[pretty-damn-quick] ${err instanceof Error ? err.message : String(err)}`,
+      );
+    } else {
+      log.error(err);
+    }
+
+    process.exitCode = 1;
+    return;
+  }
 
-  // 2. Convert CLI Args to Options Object
-  const options: PrettierOptionsCLI = {
-    check: parsed.check ?? false,
-    staged: parsed.staged ?? false,
-    changed: parsed.changed ?? false,
-    trackedOnly: parsed.trackedOnly ?? false,
-    lines: parsed.lines ?? false,
+  const options: PrettierOptionsCLI = applyConfig(config, {
+    check: parsed.check,
+    staged: parsed.staged,
+    changed: parsed.changed,
+    trackedOnly: parsed.trackedOnly,
+    lines: parsed.lines,
+    restage: parsed.restage,
+    base: parsed.base,
+    branch: parsed.branch,
+    commits: parsed.commits,
+    lastCommit: parsed.lastCommit,
+    concurrency: parsed.concurrency,
+    renameThreshold: parsed.renameThreshold,
+    wholeFileThreshold: parsed.wholeFileThreshold,
+    author: parsed.author,
+    since: parsed.since,
+    owners: parsed.owner?.map(String),
+    codeowners: parsed.codeowners,
+    explain: parsed.explain,
     extensions:
       typeof parsed.extensions === "string"
         ? parsed.extensions
             .split(",")
             .map((ext) => ext.trim())
             .filter(Boolean)
-        : [],
-    pattern: parsed._ && parsed._[0] ? String(parsed._[0]) : undefined,
-  };
+        : undefined,
+    patterns:
+      parsed._?.length && !isRebase && !isCleanFilter
+        ? parsed._.map(String)
+        : undefined,
+    ignore: parsed.ignore?.map(String),
+  });
 
   // 3. Execute Prettier
+  // As a clean filter, stdout is the staged content: nothing may be logged.
+  if (isCleanFilter) {
+    await runCleanFilter(String(parsed.file), options);
+    return;
+  }
+
   try {
-    await runPrettier(options);
+    let failure: string | undefined;
+
+    if (isRebase) {
+      await runRebase(String(parsed.upstream), options);
+    } else if (parsed.commit !== undefined || parsed.fixup !== undefined) {
+      const { run } = await runCommit(options, {
+        message: parsed.commit,
+        fixup: parsed.fixup,
+        blameIgnoreRevs: parsed.blameIgnoreRevs,
+      });
+      failure = getFailureMessage(run);
+    } else if (parsed.prePush) {
+      failure = getPrePushFailureMessage(
+        await runPrePush(options, readStdin()),
+      );
+    } else {
+      failure = getFailureMessage(await runPrettier(options));
+    }
+
+    if (failure !== undefined) {
+      log.error(new Error(failure));
+      process.exitCode = 1;
+    }
   } catch (err) {
     log.error(err);
     process.exitCode = 1;
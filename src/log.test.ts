@@ -51,6 +51,13 @@ describe("log", () => {
     expect(getOutput()).toContain("[WARN] [SKIPPED] file.js (not staged)");
   });
 
+  it("conflicted() flags the file as having merge conflicts", () => {
+    log.conflicted("file.js");
+    expect(getOutput()).toContain(
+      "[WARN] [CONFLICTED] file.js (unresolved merge conflict)",
+    );
+  });
+
   it("error() handles Error objects with stack traces", () => {
     const err = new Error("fail message");
     err.stack = "stacktrace";
@@ -63,6 +70,26 @@ describe("log", () => {
   });
 });
 
+describe("log.buffer", () => {
+  it("holds back output until flushed, in flush order", async () => {
+    const first = log.buffer();
+    const second = log.buffer();
+
+    await Promise.all([
+      first.run(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        log.info("first");
+      }),
+      second.run(() => Promise.resolve(log.warn("second"))),
+    ]);
+    expect(logs).toEqual([]);
+
+    first.flush();
+    second.flush();
+    expect(getOutput()).toBe("[INFO] first\n[WARN] second");
+  });
+});
+
 describe("log.printSummary", () => {
   beforeEach(() => {
     jest.resetModules();
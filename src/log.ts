@@ -1,12 +1,24 @@
+import { AsyncLocalStorage } from "async_hooks";
+
 type LogRange = string | undefined;
 export type LogLevel = "info" | "warn" | "error";
-type ExtendedLogLevel = LogLevel | "formatted" | "skipped" | "need formatting";
+type ExtendedLogLevel =
+  | LogLevel
+  | "formatted"
+  | "skipped"
+  | "need formatting"
+  | "conflicted";
 type LogEntry = {
   level: LogLevel;
   value: unknown;
   file?: string;
 };
 
+export type LogBuffer = {
+  run: <T>(fn: () => Promise<T>) => Promise<T>;
+  flush: () => void;
+};
+
 type Logger = {
   info: (msg: string, file?: string) => void;
   warn: (msg: unknown, file?: string) => void;
@@ -14,10 +26,13 @@ type Logger = {
   formatted: (file: string, range?: LogRange) => void;
   checked: (file: string, range?: LogRange) => void;
   skipped: (file: string, reason: string) => void;
+  conflicted: (file: string) => void;
   printSummary: (opts?: { level?: LogLevel }) => void;
+  buffer: () => LogBuffer;
 };
 
 const LOG_ENTRIES: LogEntry[] = [];
+const LOG_BUFFERS = new AsyncLocalStorage<LogEntry[]>();
 const LEVEL_COLORS: Record<ExtendedLogLevel, string> = {
   info: "\x1b[34m", // Blue
   warn: "\x1b[33m", // Yellow
@@ -25,13 +40,26 @@ const LEVEL_COLORS: Record<ExtendedLogLevel, string> = {
   formatted: "\x1b[32m", // Green
   skipped: "\x1b[36m", // Cyan
   "need formatting": "\x1b[35m", // Magenta
+  conflicted: "\x1b[91m", // Bright red
 };
 const COLOR_RESET = "\x1b[0m";
 const getPrefix = (level: ExtendedLogLevel): string =>
   `${LEVEL_COLORS[level]}[${level.toUpperCase()}]${COLOR_RESET}`;
 
 function logWithLevel(msg: unknown, file: string | undefined, level: LogLevel) {
-  LOG_ENTRIES.push({ level, value: msg, file });
+  const entry = { level, value: msg, file };
+  const buffer = LOG_BUFFERS.getStore();
+
+  if (buffer) {
+    buffer.push(entry);
+  } else {
+    writeEntry(entry);
+  }
+}
+
+function writeEntry(entry: LogEntry) {
+  const { level, value: msg } = entry;
+  LOG_ENTRIES.push(entry);
   const prefix = getPrefix(level);
 
   if (msg instanceof Error) {
@@ -56,6 +84,8 @@ const log: Logger = {
     ),
   skipped: (file, reason) =>
     log.warn(`${getPrefix("skipped")} ${file} (${reason})`),
+  conflicted: (file) =>
+    log.warn(`${getPrefix("conflicted")} ${file} (unresolved merge conflict)`),
   printSummary: (opts = {}) => {
     const levelOrder: LogLevel[] = ["info", "warn", "error"];
     const filterLevel = opts.level ?? "error";
@@ -83,6 +113,16 @@ const log: Logger = {
       }
     }
   },
+  // Holds back everything logged within `run` until `flush`, so work done
+  // concurrently can still be reported in a deterministic order.
+  buffer: () => {
+    const entries: LogEntry[] = [];
+
+    return {
+      run: (fn) => LOG_BUFFERS.run(entries, fn),
+      flush: () => entries.splice(0).forEach(writeEntry),
+    };
+  },
 };
 
 export default log;
@@ -0,0 +1,82 @@
+import prettier from "prettier";
+import { widenToNodes } from "./nodes";
+import { Range } from "./Range";
+
+const lines = (ranges: Range[]) =>
+  ranges.map((range) => [range.rangeStart() + 1, range.rangeEnd()]);
+
+describe("widenToNodes", () => {
+  const code = [
+    "import a from 'a';", // 1
+    "", // 2
+    "foo(", // 3
+    "  a,", // 4
+    "  b);", // 5
+    "function f() {", // 6
+    "  const x = {", // 7
+    "    y: 1,", // 8
+    "  };", // 9
+    "  return x;", // 10
+    "}", // 11
+    "", // 12
+  ].join("\n");
+
+  it.each([
+    ["a line inside a call", [new Range(4, 5)], [[3, 5]]],
+    ["a line inside a nested object", [new Range(8, 9)], [[7, 9]]],
+    ["a whole statement", [new Range(10, 11)], [[10, 10]]],
+    ["a blank line", [new Range(2, 3)], [[2, 2]]],
+    ["the closing brace of a function", [new Range(11, 12)], [[6, 11]]],
+  ])("widens %s", async (_, ranges, expected) => {
+    expect(
+      lines(await widenToNodes(code, ranges, { filepath: "file.js" })),
+    ).toEqual(expected);
+  });
+
+  it("merges overlapping ranges and sorts them bottom-up", async () => {
+    expect(
+      lines(
+        await widenToNodes(
+          code,
+          [new Range(1, 2), new Range(4, 5), new Range(7, 8), new Range(9, 10)],
+          { filepath: "file.js" },
+        ),
+      ),
+    ).toEqual([
+      [7, 9],
+      [3, 5],
+      [1, 1],
+    ]);
+  });
+
+  it("leaves the ranges as they are without Prettier's parser", async () => {
+    const prettierDebug = prettier as { __debug?: unknown };
+    const { __debug } = prettierDebug;
+    prettierDebug.__debug = undefined;
+
+    try {
+      expect(
+        lines(
+          await widenToNodes(code, [new Range(4, 5), new Range(8, 9)], {
+            filepath: "file.js",
+          }),
+        ),
+      ).toEqual([
+        [8, 8],
+        [4, 4],
+      ]);
+    } finally {
+      prettierDebug.__debug = __debug;
+    }
+  });
+
+  it("widens to the top-level blocks of other languages", async () => {
+    const css = "a {\n  color: red;\n}\n\nb {\n  color: blue;\n}\n";
+
+    expect(
+      lines(
+        await widenToNodes(css, [new Range(2, 3)], { filepath: "file.css" }),
+      ),
+    ).toEqual([[1, 3]]);
+  });
+});
@@ -0,0 +1,149 @@
+import prettier from "prettier";
+import { Range } from "./Range";
+
+// Not in Prettier's typings, nor documented, so it may go away.
+type PrettierDebug = {
+  parse: (text: string, options: prettier.Options) => Promise<{ ast: unknown }>;
+};
+
+type AstNode = { type: string } & Record<string, unknown>;
+
+// 1-based and inclusive, like the lines of a diff hunk.
+type NodeLines = { start: number; end: number };
+
+// Back-references and location data, which aren't child nodes.
+const SKIPPED_KEYS = new Set([
+  "parent",
+  "loc",
+  "range",
+  "position",
+  "source",
+  "tokens",
+  "comments",
+]);
+
+// Prettier's private `__debug` helpers, if this version still has them.
+const getPrettierDebug = (): PrettierDebug | undefined => {
+  const { __debug } = prettier as { __debug?: Partial<PrettierDebug> };
+
+  return typeof __debug?.parse === "function"
+    ? (__debug as PrettierDebug)
+    : undefined;
+};
+
+const isNode = (value: unknown): value is AstNode =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as { type?: unknown }).type === "string";
+
+const getChildren = (node: AstNode): AstNode[] =>
+  Object.entries(node)
+    .filter(([key]) => !SKIPPED_KEYS.has(key))
+    .flatMap(([, value]): unknown[] =>
+      Array.isArray(value) ? (value as unknown[]) : [value],
+    )
+    .filter(isNode);
+
+// Parsers locate nodes differently: estree and Babel use `loc`, PostCSS uses
+// `source` and remark and the YAML parser use `position`.
+function getNodeLines(node: AstNode): NodeLines | undefined {
+  const location = (node.loc ?? node.source ?? node.position) as
+    | { start?: { line?: number }; end?: { line?: number } }
+    | undefined;
+  const start = location?.start?.line;
+  const end = location?.end?.line;
+
+  return start === undefined || end === undefined ? undefined : { start, end };
+}
+
+// The lines of every statement or declaration, and of every top-level node:
+// the children of the first node below the root with more than one child
+// (e.g. the body of a Program, or the rules of a stylesheet).
+function collectNodeLines(root: AstNode): NodeLines[] {
+  const lines: NodeLines[] = [];
+  let children = getChildren(root);
+
+  while (children.length === 1) {
+    children = getChildren(children[0] as AstNode);
+  }
+
+  const topLevel = new Set(children);
+
+  const visit = (node: AstNode, isTopLevel: boolean) => {
+    const nodeLines = getNodeLines(node);
+
+    if (
+      nodeLines !== undefined &&
+      (isTopLevel || /(Statement|Declaration)$/u.test(node.type))
+    ) {
+      lines.push(nodeLines);
+    }
+
+    for (const child of getChildren(node)) {
+      visit(child, topLevel.has(child));
+    }
+  };
+
+  visit(root, false);
+
+  return lines;
+}
+
+// The smallest of the nodes spanning `line`, if any.
+const findEnclosing = (
+  nodes: NodeLines[],
+  line: number,
+): NodeLines | undefined =>
+  nodes
+    .filter(({ start, end }) => start <= line && line <= end)
+    .reduce<
+      NodeLines | undefined
+    >((smallest, node) => (smallest === undefined || node.end - node.start < smallest.end - smallest.start ? node : smallest), undefined);
+
+// Widens each range to the smallest statement, declaration or top-level node
+// enclosing its first and last lines, so a range never cuts through a node.
+// Ranges overlapping once widened are merged, and all are returned sorted
+// bottom-up, as `formatRanges` expects. Without Prettier's parser to find the
+// nodes, the ranges are only sorted.
+async function widenToNodes(
+  text: string,
+  ranges: Range[],
+  options: prettier.Options,
+): Promise<Range[]> {
+  const debug = getPrettierDebug();
+
+  if (debug === undefined) {
+    return [...ranges].sort((a, b) => b.rangeStart() - a.rangeStart());
+  }
+
+  const { ast } = await debug.parse(text, options);
+  const nodes = isNode(ast) ? collectNodeLines(ast) : [];
+  const widened = ranges
+    .map((range) => {
+      const first = range.rangeStart() + 1;
+      const last = range.rangeEnd();
+      const start = Math.min(
+        first,
+        findEnclosing(nodes, first)?.start ?? first,
+      );
+      const end = Math.max(last, findEnclosing(nodes, last)?.end ?? last);
+
+      return { start, end };
+    })
+    .sort((a, b) => a.start - b.start);
+  const merged: NodeLines[] = [];
+
+  for (const range of widened) {
+    const previous = merged[merged.length - 1];
+
+    if (previous !== undefined && range.start <= previous.end + 1) {
+      previous.end = Math.max(previous.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+
+  return merged.reverse().map(({ start, end }) => new Range(start, end + 1));
+}
+
+export { widenToNodes };
@@ -34,6 +34,25 @@ describe("LineOffsets", () => {
     expect(offsets.getOffset(100)).toBe(0);
   });
 
+  it("adds the column to the offset of the line", () => {
+    const offsets = new LineOffsets("ab\r\ncd\n");
+    expect(offsets.getOffset(0, 1)).toBe(1);
+    expect(offsets.getOffset(1, 1)).toBe(5); // 'ab\r\n' + 'c'
+  });
+
+  it.each([
+    [0, 0, 0],
+    [3, 0, 3], // the newline ends line 0
+    [4, 1, 0],
+    [10, 2, 1],
+    [100, 2, 91], // past the end: the last line
+  ])("maps offset %d to line %d, column %d", (offset, line, column) => {
+    expect(new LineOffsets("abc\ndefg\nhi").getPosition(offset)).toEqual({
+      line,
+      column,
+    });
+  });
+
   it("handles no trailing newline", () => {
     const offsets = new LineOffsets("a\nb");
     expect(offsets.getOffset(0)).toBe(0);
@@ -18,8 +18,27 @@ class LineOffsets {
     }
   }
 
-  getOffset(line: number) {
-    return this.offsets[line] ?? 0;
+  // `line` is 0-based, like `Range#rangeStart`; so is `column`.
+  getOffset(line: number, column = 0) {
+    return (this.offsets[line] ?? 0) + column;
+  }
+
+  // The 0-based line and column of a character offset.
+  getPosition(offset: number): { line: number; column: number } {
+    let low = 0;
+    let high = this.totalLines() - 1;
+
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+
+      if ((this.offsets[middle] as number) <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    return { line: low, column: offset - (this.offsets[low] as number) };
   }
 
   totalLines() {
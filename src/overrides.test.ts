@@ -0,0 +1,39 @@
+import { findOverride, isModeOverride, type ModeOverride } from "./overrides";
+
+describe("findOverride", () => {
+  const overrides: ModeOverride[] = [
+    { files: ["*.json", "docs/**"], mode: "whole" },
+    { files: "src/**", mode: "ranges" },
+    { files: "src/**/*.vue", mode: "markers" },
+    { files: "*.vue", mode: "skip" },
+    { files: "lib/*.vue", mode: "whole" },
+  ];
+
+  it.each([
+    ["package.json", "whole"],
+    ["docs/guide/intro.md", "whole"],
+    ["src/a.ts", "ranges"],
+    ["src/components/App.vue", "skip"],
+    ["App.vue", "skip"],
+    ["lib/App.vue", "whole"],
+    ["nested/lib/App.vue", "skip"],
+    ["src/data/a.json", "ranges"],
+    ["data/a.json", "whole"],
+    ["lib/a.ts", undefined],
+  ])("picks the last override matching %s", (file, mode) => {
+    expect(findOverride(overrides, file)).toBe(mode);
+  });
+});
+
+describe("isModeOverride", () => {
+  it.each([
+    [{ files: "src/**", mode: "ranges" }, true],
+    [{ files: ["a", "b"], mode: "skip" }, true],
+    [{ files: "src/**", mode: "lines" }, false],
+    [{ files: [1], mode: "whole" }, false],
+    [{ mode: "whole" }, false],
+    [null, false],
+  ])("checks %j", (value, expected) => {
+    expect(isModeOverride(value)).toBe(expected);
+  });
+});
@@ -0,0 +1,75 @@
+import micromatch from "micromatch";
+import { getRepoRoot, toRepoPath } from "./git";
+import type { ProcessingMode } from "./processors";
+
+// "skip" leaves the matching files out of the run altogether.
+type OverrideMode = ProcessingMode | "skip";
+
+type ModeOverride = {
+  files: string | string[]; // globs relative to the repo root, or file names
+  mode: OverrideMode;
+};
+
+const OVERRIDE_MODES: readonly OverrideMode[] = [
+  "whole",
+  "ranges",
+  "markers",
+  "skip",
+];
+
+const isModeOverride = (value: unknown): value is ModeOverride => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const { files, mode } = value as Record<string, unknown>;
+
+  return (
+    (typeof files === "string" ||
+      (Array.isArray(files) &&
+        files.every((glob) => typeof glob === "string"))) &&
+    OVERRIDE_MODES.includes(mode as OverrideMode)
+  );
+};
+
+// As in Prettier's own overrides, a glob without a slash (e.g. `*.vue`)
+// matches file names at any depth.
+const toRepoGlob = (glob: string): string =>
+  glob.includes("/") ? glob : `**/${glob}`;
+
+// Like Prettier's own overrides, the last one matching a file wins.
+const findOverride = (
+  overrides: ModeOverride[],
+  repoPath: string,
+): OverrideMode | undefined =>
+  [...overrides]
+    .reverse()
+    .find(({ files }) =>
+      micromatch.isMatch(
+        repoPath,
+        (Array.isArray(files) ? files : [files]).map(toRepoGlob),
+        { dot: true },
+      ),
+    )?.mode;
+
+// The mode the overrides pick for each of `files` matched by one.
+function resolveOverrides(
+  files: string[],
+  overrides: ModeOverride[],
+): Map<string, OverrideMode> {
+  const root = getRepoRoot();
+  const modes = new Map<string, OverrideMode>();
+
+  for (const file of files) {
+    const mode = findOverride(overrides, toRepoPath(file, root));
+
+    if (mode !== undefined) {
+      modes.set(file, mode);
+    }
+  }
+
+  return modes;
+}
+
+export { OVERRIDE_MODES, findOverride, isModeOverride, resolveOverrides };
+export type { ModeOverride, OverrideMode };
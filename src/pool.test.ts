@@ -0,0 +1,194 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import prettier from "prettier";
+import {
+  FormatWorkerPool,
+  formatText,
+  runPool,
+  startFormatWorkers,
+  stopFormatWorkers,
+} from "./pool";
+
+jest.mock("prettier");
+
+const prettierMocked = jest.mocked(prettier);
+
+const WORKER_SOURCE = `
+const { parentPort } = require("worker_threads");
+
+parentPort.on("message", ({ text }) => {
+  if (text === "crash") throw new Error("crashed");
+  if (text === "syntax") {
+    parentPort.postMessage({
+      error: { name: "SyntaxError", message: "bad syntax", stack: "stack" },
+    });
+    return;
+  }
+  parentPort.postMessage({ formatted: text.toUpperCase() });
+});
+`;
+
+let tmpDir: string;
+let script: string;
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "pdq-pool-"));
+  script = path.join(tmpDir, "worker.js");
+  fs.writeFileSync(script, WORKER_SOURCE);
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  prettierMocked.format.mockImplementation((text) =>
+    Promise.resolve(`in-process:${text}`),
+  );
+});
+
+describe("runPool", () => {
+  it("keeps input order and never exceeds the concurrency", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = runPool([30, 10, 20, 0], 2, async (delay, i) => {
+      maxInFlight = Math.max(maxInFlight, ++inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return i;
+    });
+
+    expect(await Promise.all(results)).toEqual([0, 1, 2, 3]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("rejects only the promise of the failing item", async () => {
+    const results = runPool([1, 2], 2, (n) =>
+      n === 1 ? Promise.reject(new Error("fail")) : Promise.resolve(n),
+    );
+
+    await expect(results[0]).rejects.toThrow("fail");
+    await expect(results[1]).resolves.toBe(2);
+  });
+});
+
+describe("FormatWorkerPool", () => {
+  it("formats in worker threads", async () => {
+    const pool = new FormatWorkerPool(2, script);
+
+    try {
+      expect(
+        await Promise.all(["a", "b", "c"].map((t) => pool.format(t, {}))),
+      ).toEqual(["A", "B", "C"]);
+      expect(prettierMocked.format).not.toHaveBeenCalled();
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("keeps SyntaxErrors distinguishable", async () => {
+    const pool = new FormatWorkerPool(1, script);
+
+    try {
+      await expect(pool.format("syntax", {})).rejects.toBeInstanceOf(
+        SyntaxError,
+      );
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("formats in-process when options can't be sent to a worker", async () => {
+    const pool = new FormatWorkerPool(1, script);
+
+    try {
+      const options = { plugins: [{ parse: () => null }] };
+      expect(
+        await pool.format("x", options as unknown as prettier.Options),
+      ).toBe("in-process:x");
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it("falls back to in-process formatting once all workers crashed", async () => {
+    const pool = new FormatWorkerPool(1, script);
+
+    try {
+      await expect(pool.format("crash", {})).rejects.toThrow("crashed");
+      expect(await pool.format("x", {})).toBe("in-process:x");
+    } finally {
+      await pool.close();
+    }
+  });
+});
+
+describe("FormatWorkerPool.close", () => {
+  const HANGING_SOURCE = `
+const { parentPort } = require("worker_threads");
+
+parentPort.on("message", ({ text }) => {
+  if (text === "exit") process.exit(3);
+});
+`;
+
+  it("rejects the jobs still running or queued", async () => {
+    const hanging = path.join(tmpDir, "hanging.js");
+    fs.writeFileSync(hanging, HANGING_SOURCE);
+    const pool = new FormatWorkerPool(1, hanging);
+    const settled = Promise.all(
+      ["running", "queued"].map((text) =>
+        expect(pool.format(text, {})).rejects.toThrow(
+          "stopped before the job ran",
+        ),
+      ),
+    );
+
+    await pool.close();
+    await settled;
+  });
+
+  it("rejects the job of a worker that exited", async () => {
+    const hanging = path.join(tmpDir, "hanging.js");
+    fs.writeFileSync(hanging, HANGING_SOURCE);
+    const pool = new FormatWorkerPool(1, hanging);
+
+    try {
+      await expect(pool.format("exit", {})).rejects.toThrow(
+        "Format worker exited with code 3.",
+      );
+    } finally {
+      await pool.close();
+    }
+  });
+});
+
+describe("formatText", () => {
+  afterEach(() => stopFormatWorkers());
+
+  it("formats in-process without active workers", async () => {
+    expect(await formatText("x", {})).toBe("in-process:x");
+  });
+
+  it.each([
+    ["a single worker", 1, () => script],
+    ["a missing worker script", 2, () => path.join(tmpDir, "missing.js")],
+  ])("doesn't start workers for %s", (_, size, getScript) => {
+    expect(startFormatWorkers(size, getScript())).toBe(false);
+  });
+
+  it("uses the active workers until every run stopped them", async () => {
+    expect(startFormatWorkers(2, script)).toBe(true);
+    expect(startFormatWorkers(2, script)).toBe(false);
+    expect(await formatText("x", {})).toBe("X");
+
+    await stopFormatWorkers();
+    expect(await formatText("x", {})).toBe("X");
+
+    await stopFormatWorkers();
+    expect(await formatText("x", {})).toBe("in-process:x");
+  });
+});
@@ -0,0 +1,211 @@
+import * as fs from "fs";
+import * as path from "path";
+import { Worker } from "worker_threads";
+import prettier from "prettier";
+
+type FormatJob = {
+  text: string;
+  options: prettier.Options;
+  resolve: (formatted: string) => void;
+  reject: (error: unknown) => void;
+};
+
+type WorkerResponse =
+  | { formatted: string }
+  | { error: { name: string; message: string; stack?: string } };
+
+const WORKER_SCRIPT = path.join(__dirname, "worker.js");
+
+// Runs `task` over `items` with at most `concurrency` tasks in flight. The
+// returned promises are in input order, whatever order the tasks finish in.
+function runPool<T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R>[] {
+  const settlers: Array<{
+    resolve: (value: R) => void;
+    reject: (error: unknown) => void;
+  }> = [];
+  const promises = items.map(
+    (_, i) =>
+      new Promise<R>((resolve, reject) => {
+        settlers[i] = { resolve, reject };
+      }),
+  );
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length) {
+      const i = next++;
+      const settler = settlers[i] as (typeof settlers)[number];
+
+      try {
+        settler.resolve(await task(items[i] as T, i));
+      } catch (err) {
+        settler.reject(err);
+      }
+    }
+  };
+
+  for (let i = 0; i < Math.min(concurrency, items.length); i++) {
+    void runNext();
+  }
+
+  return promises;
+}
+
+// Errors are sent across threads as plain objects; SyntaxErrors keep their
+// class so callers can still tell Prettier's parse errors apart.
+const toError = ({
+  name,
+  message,
+  stack,
+}: {
+  name: string;
+  message: string;
+  stack?: string;
+}): Error => {
+  const error =
+    name === "SyntaxError" ? new SyntaxError(message) : new Error(message);
+  error.stack = stack;
+
+  return error;
+};
+
+class FormatWorkerPool {
+  private readonly idle: Worker[] = [];
+  private readonly busy = new Map<Worker, FormatJob>();
+  private readonly queue: FormatJob[] = [];
+
+  constructor(size: number, script = WORKER_SCRIPT) {
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(script);
+
+      worker.on("message", (response: WorkerResponse) =>
+        this.settle(worker, response),
+      );
+      worker.on("error", (error) => this.fail(worker, error));
+      worker.on("exit", (code) =>
+        this.fail(worker, Error(`Format worker exited with code ${code}.`)),
+      );
+      this.idle.push(worker);
+    }
+  }
+
+  format(text: string, options: prettier.Options): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ text, options, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  // Jobs still queued or running are rejected, so no caller waits forever.
+  async close(): Promise<void> {
+    const workers = [...this.idle, ...this.busy.keys()];
+    const jobs = [...this.queue.splice(0), ...this.busy.values()];
+
+    this.idle.length = 0;
+    this.busy.clear();
+
+    for (const job of jobs) {
+      job.reject(Error("The format workers were stopped before the job ran."));
+    }
+
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    // Once every worker crashed, jobs run in-process instead.
+    if (this.idle.length === 0 && this.busy.size === 0) {
+      for (const job of this.queue.splice(0)) {
+        prettier.format(job.text, job.options).then(job.resolve, job.reject);
+      }
+    }
+
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop() as Worker;
+      const job = this.queue.shift() as FormatJob;
+
+      try {
+        worker.postMessage({ text: job.text, options: job.options });
+        this.busy.set(worker, job);
+      } catch (err) {
+        // Options that can't be cloned (e.g. plugin objects) stay in-process
+        this.idle.push(worker);
+        prettier.format(job.text, job.options).then(job.resolve, job.reject);
+      }
+    }
+  }
+
+  private settle(worker: Worker, response: WorkerResponse): void {
+    const job = this.busy.get(worker);
+
+    this.busy.delete(worker);
+    this.idle.push(worker);
+
+    if ("error" in response) {
+      job?.reject(toError(response.error));
+    } else {
+      job?.resolve(response.formatted);
+    }
+
+    this.dispatch();
+  }
+
+  // A crashed or exited worker is dropped and its job fails with the error.
+  private fail(worker: Worker, error: Error): void {
+    const job = this.busy.get(worker);
+    const idleIndex = this.idle.indexOf(worker);
+
+    if (idleIndex !== -1) {
+      this.idle.splice(idleIndex, 1);
+    }
+
+    this.busy.delete(worker);
+    job?.reject(error);
+    this.dispatch();
+  }
+}
+
+let activePool: FormatWorkerPool | undefined;
+// Concurrent runs share the pool, which is closed when the last one stops.
+let activeRuns = 0;
+
+// Worker threads need the compiled worker script, so when running from
+// sources (e.g. in tests) formatting silently stays in-process. Each call
+// must be paired with a `stopFormatWorkers` call.
+function startFormatWorkers(size: number, script = WORKER_SCRIPT): boolean {
+  activeRuns += 1;
+
+  if (activePool !== undefined || size <= 1 || !fs.existsSync(script)) {
+    return false;
+  }
+
+  activePool = new FormatWorkerPool(size, script);
+  return true;
+}
+
+async function stopFormatWorkers(): Promise<void> {
+  activeRuns = Math.max(0, activeRuns - 1);
+
+  if (activeRuns > 0) {
+    return;
+  }
+
+  const pool = activePool;
+
+  activePool = undefined;
+  await pool?.close();
+}
+
+const formatText = (text: string, options: prettier.Options): Promise<string> =>
+  activePool?.format(text, options) ?? prettier.format(text, options);
+
+export {
+  FormatWorkerPool,
+  formatText,
+  runPool,
+  startFormatWorkers,
+  stopFormatWorkers,
+};
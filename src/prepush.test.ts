@@ -0,0 +1,143 @@
+import * as git from "./git";
+import log from "./log";
+import * as processors from "./processors";
+import { parsePushedRefs, resolvePushedRange, runPrePush } from "./prepush";
+
+jest.mock("./git");
+jest.mock("./log");
+jest.mock("./processors");
+
+const gitMocked = jest.mocked(git);
+const logMocked = jest.mocked(log);
+const processorsMocked = jest.mocked(processors);
+
+const ZERO = "0".repeat(40);
+const LOCAL = "a".repeat(40);
+const REMOTE = "b".repeat(40);
+
+const baseOptions: processors.PrettierOptionsCLI = {
+  check: false,
+  staged: false,
+  changed: false,
+  lines: false,
+  trackedOnly: false,
+};
+
+const pushedRef = (localSha: string, remoteSha: string) => ({
+  localRef: "refs/heads/feature",
+  localSha,
+  remoteRef: "refs/heads/feature",
+  remoteSha,
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  gitMocked.hasCommit.mockReturnValue(true);
+  processorsMocked.runPrettier.mockResolvedValue({ ok: true, files: [] });
+});
+
+describe("parsePushedRefs", () => {
+  it("parses one ref per line and ignores blank lines", () => {
+    expect(
+      parsePushedRefs(
+        `refs/heads/feature ${LOCAL} refs/heads/feature ${REMOTE}\n\n`,
+      ),
+    ).toEqual([pushedRef(LOCAL, REMOTE)]);
+  });
+});
+
+describe("resolvePushedRange", () => {
+  it("covers the commits since the remote tip", () => {
+    expect(resolvePushedRange(pushedRef(LOCAL, REMOTE))).toBe(
+      `${REMOTE}..${LOCAL}`,
+    );
+  });
+
+  it("covers the commits no remote has for new branches", () => {
+    gitMocked.getUnpushedCommits.mockReturnValue(["c1", "c2"]);
+    gitMocked.getParentOrEmptyTree.mockReturnValue("c0");
+
+    expect(resolvePushedRange(pushedRef(LOCAL, ZERO))).toBe(`c0..${LOCAL}`);
+    expect(gitMocked.getUnpushedCommits).toHaveBeenCalledWith(LOCAL);
+    expect(gitMocked.getParentOrEmptyTree).toHaveBeenCalledWith("c1");
+  });
+
+  it("falls back to the commits no remote has for remote tips it lacks", () => {
+    gitMocked.hasCommit.mockReturnValue(false);
+    gitMocked.getUnpushedCommits.mockReturnValue(["c1"]);
+    gitMocked.getParentOrEmptyTree.mockReturnValue("c0");
+
+    expect(resolvePushedRange(pushedRef(LOCAL, REMOTE))).toBe(`c0..${LOCAL}`);
+    expect(gitMocked.hasCommit).toHaveBeenCalledWith(REMOTE);
+  });
+
+  it.each([
+    ["deleted refs", ZERO, REMOTE, []],
+    ["new branches without new commits", LOCAL, ZERO, []],
+  ])("has nothing to check for %s", (_, localSha, remoteSha, commits) => {
+    gitMocked.getUnpushedCommits.mockReturnValue(commits);
+
+    expect(resolvePushedRange(pushedRef(localSha, remoteSha))).toBeUndefined();
+  });
+});
+
+describe("runPrePush", () => {
+  it("checks the pushed lines as of the pushed commit", async () => {
+    await runPrePush(
+      { ...baseOptions, staged: true },
+      `refs/heads/feature ${LOCAL} refs/heads/feature ${REMOTE}\n`,
+    );
+
+    expect(processorsMocked.runPrettier).toHaveBeenCalledWith(
+      expect.objectContaining({
+        check: true,
+        staged: false,
+        changed: true,
+        trackedOnly: true,
+        lines: true,
+        base: `${REMOTE}..${LOCAL}`,
+        revision: LOCAL,
+      }),
+    );
+  });
+
+  it("reports each ref on its own", async () => {
+    processorsMocked.runPrettier
+      .mockResolvedValueOnce({ ok: true, files: [] })
+      .mockResolvedValueOnce({
+        ok: false,
+        files: [
+          {
+            file: "a.js",
+            status: "needs-formatting",
+            mode: "ranges",
+            ranges: [],
+          },
+          { file: "b.js", status: "unchanged", mode: "ranges", ranges: [] },
+        ],
+      })
+      .mockRejectedValueOnce(new Error("bad revision"));
+
+    const results = await runPrePush(
+      baseOptions,
+      [
+        `refs/heads/ok ${LOCAL} refs/heads/ok ${REMOTE}`,
+        `refs/heads/bad ${LOCAL} refs/heads/bad ${REMOTE}`,
+        `refs/heads/gone ${LOCAL} refs/heads/gone ${REMOTE}`,
+        `(delete) ${ZERO} refs/heads/old ${REMOTE}`,
+      ].join("\n"),
+    );
+
+    expect(results.map(({ ref, result }) => [ref, result.ok])).toEqual([
+      ["refs/heads/ok", true],
+      ["refs/heads/bad", false],
+      ["refs/heads/gone", false],
+    ]);
+    expect(logMocked.error).toHaveBeenCalledWith(
+      "refs/heads/bad: 1 file(s) failed the check.",
+    );
+    expect(logMocked.info).toHaveBeenCalledWith(
+      "refs/heads/old: no new commits to check.",
+    );
+  });
+});
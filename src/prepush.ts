@@ -0,0 +1,125 @@
+import * as fs from "fs";
+import { getParentOrEmptyTree, getUnpushedCommits, hasCommit } from "./git";
+import log from "./log";
+import { END_LINE } from "./marker";
+import {
+  runPrettier,
+  type PrettierOptionsCLI,
+  type RunResult,
+} from "./processors";
+
+// One line of a pre-push hook's stdin, see githooks(5).
+type PushedRef = {
+  localRef: string;
+  localSha: string;
+  remoteRef: string;
+  remoteSha: string;
+};
+
+type PushedRefResult = {
+  ref: string; // the remote ref being updated
+  commits: string; // the commit range that was checked
+  result: RunResult;
+};
+
+// Git sends an all-zero sha for refs that don't exist on one side.
+const isZeroSha = (sha: string): boolean => /^0+$/u.test(sha);
+
+const readStdin = (): string => fs.readFileSync(0, "utf-8");
+
+const parsePushedRefs = (input: string): PushedRef[] =>
+  input
+    .split(END_LINE)
+    .map((line) => line.trim().split(/\s+/u))
+    .filter((fields) => fields.length === 4)
+    .map((fields) => {
+      const [localRef, localSha, remoteRef, remoteSha] = fields as [
+        string,
+        string,
+        string,
+        string,
+      ];
+
+      return { localRef, localSha, remoteRef, remoteSha };
+    });
+
+// The commits a push adds: those since the remote ref's current tip or, for a
+// new branch or a remote tip that wasn't fetched (e.g. after someone else's
+// force-push), those no remote-tracking branch contains yet. Deletions and
+// pushes of already known commits add none.
+function resolvePushedRange({
+  localSha,
+  remoteSha,
+}: PushedRef): string | undefined {
+  if (isZeroSha(localSha)) {
+    return undefined;
+  }
+
+  if (!isZeroSha(remoteSha) && hasCommit(remoteSha)) {
+    return `${remoteSha}..${localSha}`;
+  }
+
+  const [oldest] = getUnpushedCommits(localSha);
+
+  return oldest === undefined
+    ? undefined
+    : `${getParentOrEmptyTree(oldest)}..${localSha}`;
+}
+
+// Checks the lines each pushed ref introduces, as they are in the pushed
+// commit rather than in the working tree (which may have another branch
+// checked out).
+async function runPrePush(
+  options: PrettierOptionsCLI,
+  input: string,
+): Promise<PushedRefResult[]> {
+  const results: PushedRefResult[] = [];
+
+  for (const pushedRef of parsePushedRefs(input)) {
+    const ref = pushedRef.remoteRef;
+    const commits = resolvePushedRange(pushedRef);
+
+    if (commits === undefined) {
+      log.info(`${ref}: no new commits to check.`);
+      continue;
+    }
+
+    let result: RunResult;
+
+    try {
+      result = await runPrettier({
+        ...options,
+        check: true,
+        staged: false,
+        changed: true,
+        trackedOnly: true,
+        lines: options.lines || true,
+        base: commits,
+        branch: undefined,
+        commits: undefined,
+        lastCommit: undefined,
+        revision: pushedRef.localSha,
+      });
+    } catch (err: unknown) {
+      log.error(err, ref);
+      result = { ok: false, files: [] };
+    }
+
+    const failed = result.files.filter(({ status }) =>
+      ["needs-formatting", "conflicted", "errored"].includes(status),
+    );
+
+    if (result.ok) {
+      log.info(`${ref}: pushed lines are formatted (${commits}).`);
+    } else {
+      log.error(`${ref}: ${failed.length} file(s) failed the check.`);
+    }
+
+    results.push({ ref, commits, result });
+  }
+
+  return results;
+}
+
+export { parsePushedRefs, readStdin, resolvePushedRange, runPrePush };
+export type { PushedRef, PushedRefResult };
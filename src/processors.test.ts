@@ -1,26 +1,41 @@
 import * as fs from "fs";
 import prettier from "prettier";
+import * as blame from "./blame";
+import * as codeowners from "./codeowners";
 import * as git from "./git";
 import log from "./log";
+import * as nodes from "./nodes";
 import {
   runPrettier,
+  resolveBase,
+  resolveCommitRange,
   resolveTargetFiles,
   processWholeFile,
   processFileByRanges,
+  type FileStatus,
   type PrettierOptionsCLI,
 } from "./processors";
 import { Range } from "./Range";
 
+jest.mock("./blame");
+jest.mock("./codeowners");
 jest.mock("./git");
 jest.mock("./log");
+jest.mock("./nodes");
 jest.mock("prettier");
 jest.mock("fs");
 
+const blameMocked = jest.mocked(blame);
+const codeownersMocked = jest.mocked(codeowners);
 const gitMocked = jest.mocked(git);
 const logMocked = jest.mocked(log);
+const nodesMocked = jest.mocked(nodes);
 const fsMocked = jest.mocked(fs);
 const prettierMocked = jest.mocked(prettier);
 
+const withStatus = (status: FileStatus) =>
+  expect.objectContaining({ status }) as unknown;
+
 const baseOptions: PrettierOptionsCLI = {
   check: false,
   staged: false,
@@ -33,11 +48,17 @@ beforeEach(() => {
   jest.clearAllMocks();
   gitMocked.getDiffFileList.mockReturnValue([]);
   gitMocked.getUntrackedFileList.mockReturnValue([]);
+  gitMocked.getNewFileList.mockReturnValue([]);
+  gitMocked.getConflictedFileList.mockReturnValue([]);
+  gitMocked.getRepoRoot.mockReturnValue(process.cwd());
+  gitMocked.toRepoPath.mockImplementation((file) => file);
   gitMocked.hasCleanIndex.mockReturnValue(true);
+  gitMocked.isInIndex.mockReturnValue(true);
   gitMocked.getDiffForFile.mockReturnValue("diff");
   gitMocked.getRangesForDiff.mockReturnValue([new Range(0, 1)]);
   fsMocked.readFileSync.mockReturnValue("code");
   fsMocked.writeFileSync.mockImplementation(() => undefined);
+  fsMocked.mkdtempSync.mockReturnValue("/tmp/pdq-staged-1");
   fsMocked.statSync.mockReturnValue({ isFile: () => true } as fs.Stats);
   prettierMocked.getFileInfo.mockResolvedValue({
     ignored: false,
@@ -45,12 +66,61 @@ beforeEach(() => {
   });
   prettierMocked.resolveConfig.mockResolvedValue({});
   prettierMocked.format.mockResolvedValue("formatted");
+  logMocked.buffer.mockImplementation(() => ({
+    run: (fn) => fn(),
+    flush: jest.fn(),
+  }));
 });
 
 afterEach(() => {
   process.exitCode = 0;
 });
 
+describe("resolveBase", () => {
+  it("returns the explicit base when no branch is given", () => {
+    expect(resolveBase({ ...baseOptions, base: "v1.0.0" })).toBe("v1.0.0");
+    expect(gitMocked.getMergeBase).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["main", "main"],
+    ["", "origin/main"],
+  ])("uses the merge-base with branch %j", (branch, target) => {
+    gitMocked.getDefaultBranch.mockReturnValue("origin/main");
+    gitMocked.getMergeBase.mockReturnValue("abc123");
+
+    expect(resolveBase({ ...baseOptions, branch })).toBe("abc123");
+    expect(gitMocked.getMergeBase).toHaveBeenCalledWith(target);
+  });
+});
+
+describe("resolveCommitRange", () => {
+  it.each([
+    [{}, undefined],
+    [{ commits: "main..HEAD" }, "main..HEAD"],
+    [{ lastCommit: true }, "HEAD~1-sha..HEAD"],
+  ])("resolves %j to %j", (options, expected) => {
+    gitMocked.getParentOrEmptyTree.mockReturnValue("HEAD~1-sha");
+
+    expect(resolveCommitRange({ ...baseOptions, ...options })).toBe(expected);
+  });
+
+  it("covers a root commit's own changes with --lastCommit", () => {
+    gitMocked.getParentOrEmptyTree.mockReturnValue("4b825dc");
+
+    expect(resolveCommitRange({ ...baseOptions, lastCommit: true })).toBe(
+      "4b825dc..HEAD",
+    );
+    expect(gitMocked.getParentOrEmptyTree).toHaveBeenCalledWith("HEAD");
+  });
+
+  it("rejects a single commit", () => {
+    expect(() =>
+      resolveCommitRange({ ...baseOptions, commits: "main" }),
+    ).toThrow("Expected a commit range like A..B, but got 'main'.");
+  });
+});
+
 describe("resolveTargetFiles", () => {
   it("filters by pattern, extensions, and deduplicates", () => {
     gitMocked.getDiffFileList.mockImplementation((staged) =>
@@ -63,7 +133,7 @@ describe("resolveTargetFiles", () => {
         ...baseOptions,
         staged: true,
         changed: true,
-        pattern: "*z.js",
+        patterns: ["*z.js"],
       }),
     ).toEqual(["baz.js"]);
 
@@ -84,24 +154,291 @@ describe("resolveTargetFiles", () => {
       }).sort(),
     ).toEqual(["a.js", "foo.js", "b.ts", "bar.ts", "c.js", "baz.js"].sort());
   });
+
+  it("matches globs relative to the repo root, with negations", () => {
+    gitMocked.getDiffFileList.mockReturnValue([
+      "src/a.ts",
+      "src/a.test.ts",
+      "test/b.ts",
+      "docs/c.md",
+    ]);
+    gitMocked.getRepoRoot.mockReturnValue("/repo");
+    gitMocked.toRepoPath.mockImplementation((file) => file);
+
+    expect(
+      resolveTargetFiles({
+        ...baseOptions,
+        patterns: ["src/**", "test/**", "!**/*.test.ts"],
+      }),
+    ).toEqual(["src/a.ts", "test/b.ts"]);
+    expect(gitMocked.toRepoPath).toHaveBeenCalledWith("src/a.ts", "/repo");
+
+    expect(
+      resolveTargetFiles({ ...baseOptions, ignore: ["test/**", "docs/**"] }),
+    ).toEqual(["src/a.ts", "src/a.test.ts"]);
+  });
+
+  it("still honors the deprecated pattern, matched against the file paths", () => {
+    gitMocked.getDiffFileList.mockReturnValue([
+      "/repo/src/a.ts",
+      "/repo/docs/c.md",
+    ]);
+
+    expect(
+      resolveTargetFiles({ ...baseOptions, pattern: "/repo/src/**" }),
+    ).toEqual(["/repo/src/a.ts"]);
+  });
+
+  it("filters by globs before checking files exist", () => {
+    gitMocked.getDiffFileList.mockReturnValue(["src/a.ts", "docs/c.md"]);
+
+    resolveTargetFiles({ ...baseOptions, patterns: ["src/**"] });
+
+    expect(fsMocked.statSync.mock.calls.map(([file]) => file)).toEqual([
+      "src/a.ts",
+    ]);
+  });
+
+  it("keeps only the files of the given CODEOWNERS owners", () => {
+    gitMocked.getDiffFileList.mockReturnValue(["web/a.js", "api/b.js"]);
+    codeownersMocked.filterByOwners.mockReturnValue(["web/a.js"]);
+    const options = { ...baseOptions, owners: ["@acme/web"] };
+
+    expect(resolveTargetFiles(options)).toEqual(["web/a.js"]);
+    expect(codeownersMocked.filterByOwners).toHaveBeenCalledWith(
+      ["web/a.js", "api/b.js"],
+      options,
+    );
+  });
+
+  it("leaves out the files an override skips", () => {
+    gitMocked.getDiffFileList.mockReturnValue(["legacy/a.js", "src/b.js"]);
+
+    expect(
+      resolveTargetFiles({
+        ...baseOptions,
+        overrides: [
+          { files: "legacy/**", mode: "skip" },
+          { files: "src/**", mode: "ranges" },
+        ],
+      }),
+    ).toEqual(["src/b.js"]);
+  });
+
+  it("lists only the files of a commit range that still exist", () => {
+    gitMocked.getDiffFileList.mockReturnValue(["kept.js", "deleted.js"]);
+    gitMocked.getUntrackedFileList.mockReturnValue(["untracked.js"]);
+    fsMocked.statSync.mockImplementation(((file: string) =>
+      file === "deleted.js" ? undefined : { isFile: () => true }) as never);
+
+    expect(
+      resolveTargetFiles({ ...baseOptions, commits: "main..HEAD" }),
+    ).toEqual(["kept.js"]);
+    expect(gitMocked.getDiffFileList).toHaveBeenCalledTimes(1);
+    expect(gitMocked.getDiffFileList).toHaveBeenCalledWith(
+      false,
+      "main..HEAD",
+      undefined,
+    );
+  });
+
+  it("keeps files missing from the working tree when reading a revision", () => {
+    gitMocked.getDiffFileList.mockReturnValue(["deleted.js"]);
+
+    expect(
+      resolveTargetFiles({
+        ...baseOptions,
+        changed: true,
+        trackedOnly: true,
+        revision: "abc123",
+      }),
+    ).toEqual(["deleted.js"]);
+    expect(fsMocked.statSync).not.toHaveBeenCalled();
+  });
+
+  it("diffs the file lists against the base ref", () => {
+    resolveTargetFiles({ ...baseOptions, base: "main" });
+
+    expect(gitMocked.getDiffFileList).toHaveBeenCalledWith(
+      true,
+      "main",
+      undefined,
+    );
+    expect(gitMocked.getDiffFileList).toHaveBeenCalledWith(
+      false,
+      "main",
+      undefined,
+    );
+  });
+
+  it.each([
+    [{ staged: true }, [true]],
+    [{ changed: true }, [false]],
+    [{ staged: true, changed: true }, [true, false]],
+  ])("only lists what %j needs", (flags, lists) => {
+    resolveTargetFiles({ ...baseOptions, ...flags, trackedOnly: true });
+
+    expect(
+      gitMocked.getDiffFileList.mock.calls.map(([staged]) => staged),
+    ).toEqual(lists);
+    expect(gitMocked.getUntrackedFileList).not.toHaveBeenCalled();
+  });
 });
 
 describe("processWholeFile", () => {
-  it("skips unstaged changes when staged", async () => {
+  it("formats the index version of partially staged files", async () => {
     gitMocked.hasCleanIndex.mockReturnValue(false);
+    gitMocked.getIndexContent.mockReturnValue("staged");
+    gitMocked.mergeFiles.mockReturnValue("formatted, unstaged");
+    prettierMocked.format.mockResolvedValue("formatted");
+
     expect(
       await processWholeFile("file.js", { ...baseOptions, staged: true }),
-    ).toBe(true);
-    expect(logMocked.skipped).toHaveBeenCalled();
+    ).toEqual(withStatus("formatted"));
+    expect(prettierMocked.format).toHaveBeenCalledWith(
+      "staged",
+      expect.anything(),
+    );
+    expect(gitMocked.updateIndexContent).toHaveBeenCalledWith(
+      "file.js",
+      "formatted",
+    );
+    expect(fsMocked.writeFileSync).toHaveBeenCalledWith(
+      "file.js",
+      "formatted, unstaged",
+      "utf-8",
+    );
+    expect(fsMocked.rmSync).toHaveBeenCalledWith("/tmp/pdq-staged-1", {
+      recursive: true,
+      force: true,
+    });
+  });
+
+  it("warns when the formatting overlaps unstaged changes", async () => {
+    gitMocked.hasCleanIndex.mockReturnValue(false);
+    gitMocked.getIndexContent.mockReturnValue("staged");
+    gitMocked.mergeFiles.mockReturnValue(undefined);
+    prettierMocked.format.mockResolvedValue("formatted");
+
+    await processWholeFile("file.js", { ...baseOptions, staged: true });
+
+    expect(gitMocked.updateIndexContent).toHaveBeenCalledWith(
+      "file.js",
+      "formatted",
+    );
+    expect(fsMocked.writeFileSync).not.toHaveBeenCalledWith(
+      "file.js",
+      expect.anything(),
+      "utf-8",
+    );
+    expect(logMocked.warn).toHaveBeenCalledWith(
+      "file.js: the formatting overlaps unstaged changes, so it is staged only. Staging the file again as it is would undo it.",
+      "file.js",
+    );
+  });
+
+  it("checks files as of a revision", async () => {
+    gitMocked.getRevisionContent.mockReturnValue("pushed");
+    prettierMocked.format.mockResolvedValue("formatted");
+
+    expect(
+      await processWholeFile("file.js", {
+        ...baseOptions,
+        check: true,
+        revision: "abc123",
+      }),
+    ).toEqual(withStatus("needs-formatting"));
+    expect(gitMocked.getRevisionContent).toHaveBeenCalledWith(
+      "file.js",
+      "abc123",
+    );
+    expect(fsMocked.readFileSync).not.toHaveBeenCalled();
+  });
+
+  it("refuses to write files read from a revision", async () => {
+    await expect(
+      processWholeFile("file.js", { ...baseOptions, revision: "abc123" }),
+    ).rejects.toThrow("Files read from a revision can only be checked.");
+    expect(fsMocked.writeFileSync).not.toHaveBeenCalled();
   });
 
   it.each([
-    ["ignored", true, null, "same", "same", true, true],
-    ["formatted & written", false, "babel", "old", "new", false, false],
-    ["check mode diff", false, "babel", "old", "new", true, false],
-    ["check identical", false, "babel", "same", "same", true, true],
-    ["null config", false, "babel", "abc", "abc", true, true],
+    [true, true],
+    [false, false],
   ])(
+    "re-stages clean staged files when restage is %s",
+    async (restage, shouldRestage) => {
+      fsMocked.readFileSync.mockReturnValue("old");
+      prettierMocked.format.mockResolvedValue("new");
+
+      await processWholeFile("file.js", {
+        ...baseOptions,
+        staged: true,
+        restage,
+      });
+
+      expect(fsMocked.writeFileSync).toHaveBeenCalledWith(
+        "file.js",
+        "new",
+        "utf-8",
+      );
+      if (shouldRestage) {
+        expect(gitMocked.updateIndexContent).toHaveBeenCalledWith(
+          "file.js",
+          "new",
+        );
+      } else {
+        expect(gitMocked.updateIndexContent).not.toHaveBeenCalled();
+      }
+    },
+  );
+
+  it("formats untracked files in the working tree only, even with restage", async () => {
+    gitMocked.isInIndex.mockReturnValue(false);
+    fsMocked.readFileSync.mockReturnValue("old");
+    prettierMocked.format.mockResolvedValue("new");
+
+    await processWholeFile("new.js", {
+      ...baseOptions,
+      staged: true,
+      restage: true,
+    });
+
+    expect(fsMocked.writeFileSync).toHaveBeenCalledWith(
+      "new.js",
+      "new",
+      "utf-8",
+    );
+    expect(gitMocked.getIndexContent).not.toHaveBeenCalled();
+    expect(gitMocked.updateIndexContent).not.toHaveBeenCalled();
+  });
+
+  it("does not re-stage outside of staged mode", async () => {
+    fsMocked.readFileSync.mockReturnValue("old");
+    prettierMocked.format.mockResolvedValue("new");
+
+    await processWholeFile("file.js", { ...baseOptions, restage: true });
+
+    expect(gitMocked.hasCleanIndex).not.toHaveBeenCalled();
+    expect(gitMocked.updateIndexContent).not.toHaveBeenCalled();
+  });
+
+  it("ignores unstaged changes outside of staged mode", async () => {
+    gitMocked.hasCleanIndex.mockReturnValue(false);
+
+    await processWholeFile("file.js", baseOptions);
+
+    expect(gitMocked.getIndexContent).not.toHaveBeenCalled();
+    expect(fsMocked.writeFileSync).toHaveBeenCalled();
+  });
+
+  it.each([
+    ["ignored", true, null, "same", "same", true, "ignored"],
+    ["formatted & written", false, "babel", "old", "new", false, "formatted"],
+    ["check mode diff", false, "babel", "old", "new", true, "needs-formatting"],
+    ["check identical", false, "babel", "same", "same", true, "unchanged"],
+    ["null config", false, "babel", "abc", "abc", true, "unchanged"],
+  ] as const)(
     "%s",
     async (_, ignored, inferredParser, code, formatted, check, expected) => {
       prettierMocked.getFileInfo.mockResolvedValueOnce({
@@ -111,9 +448,14 @@ describe("processWholeFile", () => {
       prettierMocked.resolveConfig.mockResolvedValueOnce(ignored ? {} : null);
       fsMocked.readFileSync.mockReturnValue(code);
       prettierMocked.format.mockResolvedValue(formatted);
-      expect(await processWholeFile("file.js", { ...baseOptions, check })).toBe(
-        expected,
-      );
+      expect(
+        await processWholeFile("file.js", { ...baseOptions, check }),
+      ).toEqual({
+        file: "file.js",
+        status: expected,
+        mode: "whole",
+        ranges: [],
+      });
     },
   );
 });
@@ -134,7 +476,9 @@ describe("processFileByRanges", () => {
     gitMocked.getRangesForDiff.mockReturnValue([new Range(1, 2)]);
     fsMocked.readFileSync.mockReturnValue("old");
     prettierMocked.format.mockResolvedValue("new");
-    expect(await testRangeProcessing(processor)).toBe(false);
+    expect(await testRangeProcessing(processor)).toEqual(
+      withStatus("formatted"),
+    );
     expect(fsMocked.writeFileSync).toHaveBeenCalledWith(
       "file.js",
       "new",
@@ -146,20 +490,210 @@ describe("processFileByRanges", () => {
     gitMocked.getRangesForDiff.mockReturnValue([new Range(1, 2)]);
     fsMocked.readFileSync.mockReturnValue("same");
     prettierMocked.format.mockResolvedValue("same");
-    expect(await testRangeProcessing(processor)).toBe(true);
+    expect(await testRangeProcessing(processor)).toEqual(
+      withStatus("unchanged"),
+    );
     expect(fsMocked.writeFileSync).not.toHaveBeenCalled();
   });
 
+  it("re-stages only the formatted ranges of clean staged files", async () => {
+    gitMocked.getRangesForDiff.mockReturnValue([new Range(1, 2)]);
+    fsMocked.readFileSync.mockReturnValue("line1\nline2\nline3\n");
+    prettierMocked.format.mockResolvedValue("formatted\nline2\nline3\n");
+
+    await processFileByRanges("file.js", {
+      ...baseOptions,
+      staged: true,
+      restage: true,
+      lines: true,
+    });
+
+    expect(gitMocked.updateIndexContent).toHaveBeenCalledWith(
+      "file.js",
+      "formatted\nline2\nline3\n",
+    );
+  });
+
   it("partial ranges formatting", async () => {
     gitMocked.getRangesForDiff.mockReturnValue([new Range(1, 2)]);
     fsMocked.readFileSync.mockReturnValue("line1\nline2\nline3\n");
     prettierMocked.format.mockResolvedValue("formatted\nline2\nline3\n");
     expect(
       await processFileByRanges("file.js", { ...baseOptions, lines: true }),
-    ).toBe(false);
+    ).toEqual({
+      file: "file.js",
+      status: "formatted",
+      mode: "ranges",
+      ranges: [{ start: 1, end: 1 }],
+    });
     expect(fsMocked.writeFileSync).toHaveBeenCalled();
   });
 
+  it.each([
+    ["processFileByRanges", "ranges"],
+    ["processRangesWithMarkers", "markers"],
+  ])(
+    "%s: formats staged ranges in the index for partially staged files",
+    async (_, processor) => {
+      const marker = await import("./marker");
+      jest
+        .spyOn(marker, "mergeMarkedSections")
+        .mockImplementation(() => "formatted\nline2\nline3\n");
+      gitMocked.hasCleanIndex.mockReturnValue(false);
+      gitMocked.getIndexContent.mockReturnValue("line1\nline2\nline3\n");
+      gitMocked.getRangesForDiff.mockReturnValue([new Range(1, 2)]);
+      gitMocked.mergeFiles.mockReturnValue("formatted\nline2\nline3\nline4\n");
+      prettierMocked.format.mockResolvedValue("formatted\nline2\nline3\n");
+
+      await testRangeProcessing(processor, { ...baseOptions, staged: true });
+
+      expect(gitMocked.updateIndexContent).toHaveBeenCalledWith(
+        "file.js",
+        "formatted\nline2\nline3\n",
+      );
+      expect(fsMocked.writeFileSync).toHaveBeenCalledWith(
+        "file.js",
+        "formatted\nline2\nline3\nline4\n",
+        "utf-8",
+      );
+    },
+  );
+
+  it.each([
+    ["processFileByRanges", "ranges"],
+    ["processRangesWithMarkers", "markers"],
+  ])(
+    "%s: escalates files above the whole-file threshold",
+    async (_, processor) => {
+      gitMocked.getRangesForDiff.mockReturnValue([
+        new Range(1, 2),
+        new Range(3, 5),
+      ]);
+      fsMocked.readFileSync.mockReturnValue("a\nb\nc\nd\n");
+      prettierMocked.format.mockResolvedValue("formatted\n");
+
+      expect(
+        await testRangeProcessing(processor, {
+          ...baseOptions,
+          wholeFileThreshold: 70,
+        }),
+      ).toEqual({
+        file: "file.js",
+        status: "formatted",
+        mode: "whole",
+        ranges: [],
+      });
+      expect(logMocked.info).toHaveBeenCalledWith(
+        "Escalated file.js to whole-file formatting: 75% of its lines changed (threshold: 70%).",
+        "file.js",
+      );
+    },
+  );
+
+  it("doesn't escalate blamed lines above the whole-file threshold", async () => {
+    gitMocked.getRangesForDiff.mockReturnValue([
+      new Range(1, 2),
+      new Range(3, 5),
+    ]);
+    fsMocked.readFileSync.mockReturnValue("a\nb\nc\nd\n");
+    prettierMocked.format.mockResolvedValue("formatted\n");
+
+    const result = await testRangeProcessing("processFileByRanges", {
+      ...baseOptions,
+      wholeFileThreshold: 70,
+      author: "me",
+    });
+
+    expect(result.mode).toBe("ranges");
+    expect(logMocked.info).not.toHaveBeenCalled();
+  });
+
+  it("formats only the changed words with --lines=word", async () => {
+    gitMocked.getRangesForDiff.mockReturnValue([new Range(1, 2)]);
+    gitMocked.getWordChangesForDiff.mockReturnValue([
+      { line: 1, column: 6, length: 3 },
+      { line: 1, column: 12, length: 0 },
+    ]);
+    fsMocked.readFileSync.mockReturnValue("const foo   =   [];\nbar();\n");
+    prettierMocked.format.mockImplementation((text) =>
+      Promise.resolve(text.replace("=   [", "= [")),
+    );
+
+    expect(
+      await processFileByRanges("file.js", { ...baseOptions, lines: "word" }),
+    ).toEqual({
+      file: "file.js",
+      status: "formatted",
+      mode: "ranges",
+      ranges: [{ start: 1, end: 1 }],
+    });
+    expect(gitMocked.getDiffForFile).toHaveBeenLastCalledWith(
+      "file.js",
+      false,
+      undefined,
+      undefined,
+      true,
+    );
+    expect(
+      prettierMocked.format.mock.calls.map(([, options]) => [
+        options?.rangeStart,
+        options?.rangeEnd,
+      ]),
+    ).toEqual([
+      [12, 13],
+      [6, 9],
+    ]);
+  });
+
+  it("formats whole lines the word diff shows no change in", async () => {
+    gitMocked.getRangesForDiff.mockReturnValue([new Range(2, 3)]);
+    gitMocked.getWordChangesForDiff.mockReturnValue([]);
+    fsMocked.readFileSync.mockReturnValue("a;\nb  ;\n");
+
+    await processFileByRanges("file.js", { ...baseOptions, lines: "word" });
+
+    expect(prettierMocked.format).toHaveBeenCalledWith(
+      "a;\nb  ;\n",
+      expect.objectContaining({ rangeStart: 3, rangeEnd: 7 }),
+    );
+  });
+
+  it("widens the ranges to whole nodes with --lines=node", async () => {
+    const widened = [new Range(1, 3)];
+    gitMocked.getRangesForDiff.mockReturnValue([new Range(2, 3)]);
+    nodesMocked.widenToNodes.mockResolvedValue(widened);
+    fsMocked.readFileSync.mockReturnValue("foo(\n  a);\nbar();\n");
+    prettierMocked.format.mockResolvedValue("foo(a);\nbar();\n");
+
+    expect(
+      await processFileByRanges("file.js", { ...baseOptions, lines: "node" }),
+    ).toEqual({
+      file: "file.js",
+      status: "formatted",
+      mode: "ranges",
+      ranges: [{ start: 1, end: 2 }],
+    });
+    expect(nodesMocked.widenToNodes).toHaveBeenCalledWith(
+      "foo(\n  a);\nbar();\n",
+      [new Range(2, 3)],
+      { filepath: "file.js" },
+    );
+  });
+
+  it("keeps formatting ranges at or below the whole-file threshold", async () => {
+    gitMocked.getRangesForDiff.mockReturnValue([new Range(1, 2)]);
+    fsMocked.readFileSync.mockReturnValue("a\nb\n");
+    prettierMocked.format.mockResolvedValue("formatted\nb\n");
+
+    expect(
+      await testRangeProcessing("ranges", {
+        ...baseOptions,
+        wholeFileThreshold: 50,
+      }),
+    ).toEqual(expect.objectContaining({ mode: "ranges" }));
+    expect(logMocked.info).not.toHaveBeenCalled();
+  });
+
   it("handles ignored files and null config", async () => {
     prettierMocked.getFileInfo.mockResolvedValueOnce({
       ignored: true,
@@ -167,7 +701,7 @@ describe("processFileByRanges", () => {
     });
     expect(
       await processFileByRanges("file.js", { ...baseOptions, lines: true }),
-    ).toBe(true);
+    ).toEqual(withStatus("ignored"));
 
     prettierMocked.resolveConfig.mockResolvedValueOnce(null);
     prettierMocked.format.mockImplementation((input) => Promise.resolve(input));
@@ -177,7 +711,7 @@ describe("processFileByRanges", () => {
         check: true,
         lines: true,
       }),
-    ).toBe(true);
+    ).toEqual(withStatus("unchanged"));
   });
 
   it("reports diff in check mode", async () => {
@@ -188,7 +722,7 @@ describe("processFileByRanges", () => {
         check: true,
         lines: true,
       }),
-    ).toBe(false);
+    ).toEqual(withStatus("needs-formatting"));
     expect(logMocked.checked).toHaveBeenCalled();
   });
 
@@ -209,7 +743,12 @@ describe("processFileByRanges", () => {
         ...baseOptions,
         check: true,
       }),
-    ).toBe(false);
+    ).toEqual({
+      file: "file.js",
+      status: "needs-formatting",
+      mode: "markers",
+      ranges: [{ start: 0, end: 0 }],
+    });
     expect(logMocked.checked).toHaveBeenCalled();
   });
 
@@ -228,31 +767,366 @@ describe("processFileByRanges", () => {
 });
 
 describe("runPrettier", () => {
-  it("handles edge cases", async () => {
-    await runPrettier({ ...baseOptions, check: true });
+  it("returns an empty, successful result when there are no files", async () => {
+    expect(await runPrettier({ ...baseOptions, check: true })).toEqual({
+      ok: true,
+      files: [],
+    });
     expect(logMocked.info).toHaveBeenCalledWith("No files to process.");
+  });
 
+  it("reports Prettier errors per file instead of throwing", async () => {
+    const error = new Error("fail");
     gitMocked.getDiffFileList.mockReturnValue(["a.js"]);
     fsMocked.readFileSync.mockReturnValue("code");
     prettierMocked.format.mockImplementation(() => {
-      throw new Error("fail");
+      throw error;
+    });
+
+    expect(await runPrettier({ ...baseOptions, staged: true })).toEqual({
+      ok: false,
+      files: [
+        { file: "a.js", status: "errored", mode: "whole", ranges: [], error },
+      ],
     });
-    await expect(runPrettier({ ...baseOptions, staged: true })).rejects.toThrow(
-      "Prettier exiting error(s) occurred. See above for details.",
-    );
     expect(logMocked.error).toHaveBeenCalled();
   });
 
+  it("reports marker errors as skipped without failing the run", async () => {
+    const marker = await import("./marker");
+    jest.spyOn(marker, "insertMarkers").mockImplementation(() => {
+      throw new Error("[PDQ Marker] Unsupported parser");
+    });
+    gitMocked.getDiffFileList.mockReturnValue(["a.js"]);
+    gitMocked.getRangesForDiff.mockReturnValue([new Range(2, 3)]);
+
+    const result = await runPrettier({
+      ...baseOptions,
+      staged: true,
+      lines: "experimental",
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.files).toEqual([
+      expect.objectContaining({ status: "skipped", mode: "markers" }),
+    ]);
+  });
+
+  it("collects the ranges of all files with a single diff", async () => {
+    gitMocked.getDiffFileList.mockReturnValue(["a.js", "b.js", "c.js"]);
+    gitMocked.getDiffRangesByFile.mockReturnValue(
+      new Map([
+        ["a.js", [new Range(1, 2)]],
+        ["b.js", [new Range(1, 2)]],
+      ]),
+    );
+    fsMocked.readFileSync.mockReturnValue("old");
+    prettierMocked.format.mockResolvedValue("new");
+
+    const result = await runPrettier({
+      ...baseOptions,
+      changed: true,
+      lines: true,
+      base: "main",
+    });
+
+    expect(gitMocked.getDiffRangesByFile).toHaveBeenCalledTimes(1);
+    expect(gitMocked.getDiffRangesByFile).toHaveBeenCalledWith(
+      false,
+      "main",
+      undefined,
+    );
+    expect(gitMocked.getDiffForFile).not.toHaveBeenCalled();
+    expect(result.files.map(({ status }) => status)).toEqual([
+      "formatted",
+      "formatted",
+      "unchanged",
+    ]);
+  });
+
+  it.each([
+    ["untracked", false, "untracked"],
+    ["intent-to-add", false, "unstaged"],
+    ["newly added to the index", true, "staged"],
+  ])(
+    "formats %s files whole in line-ranges mode",
+    async (_, staged, listedAs) => {
+      const listNew = (isStaged: boolean) =>
+        listedAs === (isStaged ? "staged" : "unstaged") ? ["new.js"] : [];
+      gitMocked.getDiffFileList.mockImplementation((isStaged) => [
+        "old.js",
+        ...listNew(isStaged),
+      ]);
+      gitMocked.getNewFileList.mockImplementation(listNew);
+      gitMocked.getUntrackedFileList.mockReturnValue(
+        listedAs === "untracked" ? ["new.js"] : [],
+      );
+      gitMocked.getDiffRangesByFile.mockReturnValue(
+        new Map([["old.js", [new Range(1, 2)]]]),
+      );
+      fsMocked.readFileSync.mockReturnValue("old\nold\n");
+      prettierMocked.format.mockResolvedValue("new");
+
+      const result = await runPrettier({
+        ...baseOptions,
+        staged,
+        changed: !staged,
+        lines: true,
+      });
+
+      expect(result.files).toEqual([
+        expect.objectContaining({ file: "old.js", mode: "ranges" }),
+        expect.objectContaining({
+          file: "new.js",
+          status: "formatted",
+          mode: "whole",
+        }),
+      ]);
+    },
+  );
+
+  it.each([
+    [false, true],
+    [true, false],
+  ])(
+    "reports conflicted files without formatting them (check: %p)",
+    async (check, ok) => {
+      gitMocked.getDiffFileList.mockReturnValue(["conflict.js"]);
+      gitMocked.getConflictedFileList.mockReturnValue(["conflict.js"]);
+
+      const result = await runPrettier({ ...baseOptions, check });
+
+      expect(prettierMocked.format).not.toHaveBeenCalled();
+      expect(logMocked.conflicted).toHaveBeenCalledWith("conflict.js");
+      expect(result).toEqual({ ok, files: [withStatus("conflicted")] });
+    },
+  );
+
+  it("formats the ranges of a commit range", async () => {
+    gitMocked.getDiffFileList.mockReturnValue(["a.js"]);
+    gitMocked.getParentOrEmptyTree.mockReturnValue("HEAD~1-sha");
+    gitMocked.getCommitRangeRangesByFile.mockReturnValue(
+      new Map([["a.js", [new Range(1, 2)]]]),
+    );
+    fsMocked.readFileSync.mockReturnValue("old\nold\n");
+    prettierMocked.format.mockResolvedValue("new\nold\n");
+
+    const result = await runPrettier({
+      ...baseOptions,
+      lines: true,
+      lastCommit: true,
+    });
+
+    expect(gitMocked.getCommitRangeRangesByFile).toHaveBeenCalledWith(
+      "HEAD~1-sha..HEAD",
+      undefined,
+    );
+    expect(gitMocked.getDiffRangesByFile).not.toHaveBeenCalled();
+    expect(result.files).toEqual([
+      expect.objectContaining({ status: "formatted", mode: "ranges" }),
+    ]);
+  });
+
+  it("formats the blamed lines of all files without a diff", async () => {
+    const filter = {
+      author: /me/u,
+      ident: { author: "me", mail: "", time: 0 },
+    };
+    blameMocked.resolveBlameFilter.mockReturnValue(filter);
+    blameMocked.getBlamedRanges.mockReturnValue([new Range(1, 2)]);
+    gitMocked.getTrackedFileList.mockReturnValue(["a.js"]);
+    fsMocked.readFileSync.mockReturnValue("old\nold\n");
+    prettierMocked.format.mockResolvedValue("new\nold\n");
+
+    const result = await runPrettier({ ...baseOptions, author: "me" });
+
+    expect(gitMocked.getDiffFileList).not.toHaveBeenCalled();
+    expect(blameMocked.getBlamedRanges).toHaveBeenCalledWith(
+      "a.js",
+      filter,
+      undefined,
+    );
+    expect(result.files).toEqual([
+      expect.objectContaining({ status: "formatted", mode: "ranges" }),
+    ]);
+  });
+
+  it("narrows changed lines down to the blamed ones", async () => {
+    const diffRanges = [new Range(1, 3)];
+    const blamedRanges = [new Range(2, 3)];
+    blameMocked.resolveBlameFilter.mockReturnValue({
+      since: 0,
+      ident: { author: "me", mail: "", time: 0 },
+    });
+    blameMocked.getBlamedRanges.mockReturnValue(blamedRanges);
+    blameMocked.intersectRanges.mockReturnValue(blamedRanges);
+    gitMocked.getDiffFileList.mockReturnValue(["a.js"]);
+    gitMocked.getDiffRangesByFile.mockReturnValue(
+      new Map([["a.js", diffRanges]]),
+    );
+
+    await runPrettier({
+      ...baseOptions,
+      changed: true,
+      lines: true,
+      since: "0",
+    });
+
+    expect(gitMocked.getTrackedFileList).not.toHaveBeenCalled();
+    expect(blameMocked.intersectRanges).toHaveBeenCalledWith(
+      diffRanges,
+      blamedRanges,
+    );
+  });
+
+  it("blames the staged version of files formatted in the index only", async () => {
+    const filter = {
+      author: /me/u,
+      ident: { author: "me", mail: "", time: 0 },
+    };
+    blameMocked.resolveBlameFilter.mockReturnValue(filter);
+    blameMocked.getBlamedRanges.mockReturnValue([new Range(1, 2)]);
+    blameMocked.intersectRanges.mockReturnValue([new Range(1, 2)]);
+    gitMocked.hasCleanIndex.mockReturnValue(false);
+    gitMocked.getIndexContent.mockReturnValue("staged\n");
+    gitMocked.getDiffFileList.mockReturnValue(["a.js"]);
+    gitMocked.getDiffRangesByFile.mockReturnValue(
+      new Map([["a.js", [new Range(1, 2)]]]),
+    );
+
+    await runPrettier({
+      ...baseOptions,
+      staged: true,
+      lines: true,
+      author: "me",
+    });
+
+    expect(blameMocked.getBlamedRanges).toHaveBeenCalledWith(
+      "a.js",
+      filter,
+      "staged\n",
+    );
+  });
+
+  it("picks the mode of each file from the last matching override", async () => {
+    gitMocked.getDiffFileList.mockReturnValue(["a.json", "src/b.js", "c.vue"]);
+    gitMocked.getConflictedFileList.mockReturnValue(["c.vue"]);
+    gitMocked.getDiffRangesByFile.mockReturnValue(
+      new Map([["src/b.js", [new Range(1, 2)]]]),
+    );
+    fsMocked.readFileSync.mockReturnValue("old\nold\n");
+    prettierMocked.format.mockResolvedValue("new\nold\n");
+
+    const result = await runPrettier({
+      ...baseOptions,
+      changed: true,
+      overrides: [
+        { files: ["*.json", "src/**"], mode: "whole" },
+        { files: "src/**", mode: "ranges" },
+        { files: "*.vue", mode: "markers" },
+      ],
+    });
+
+    expect(gitMocked.getDiffRangesByFile).toHaveBeenCalledTimes(1);
+    expect(result.files.map(({ file, mode }) => [file, mode])).toEqual([
+      ["a.json", "whole"],
+      ["src/b.js", "ranges"],
+      ["c.vue", "markers"],
+    ]);
+  });
+
+  it("only diffs when an override asks for line ranges", async () => {
+    gitMocked.getDiffFileList.mockReturnValue(["a.json"]);
+
+    await runPrettier({
+      ...baseOptions,
+      changed: true,
+      overrides: [{ files: "*.json", mode: "whole" }],
+    });
+
+    expect(gitMocked.getDiffRangesByFile).not.toHaveBeenCalled();
+  });
+
+  it("passes the rename threshold to every diff", async () => {
+    gitMocked.getDiffFileList.mockReturnValue(["a.js"]);
+    gitMocked.getDiffRangesByFile.mockReturnValue(new Map());
+
+    await runPrettier({
+      ...baseOptions,
+      changed: true,
+      lines: true,
+      renameThreshold: 30,
+    });
+
+    expect(gitMocked.getDiffFileList).toHaveBeenCalledWith(
+      false,
+      undefined,
+      30,
+    );
+    expect(gitMocked.getNewFileList).toHaveBeenCalledWith(false, undefined, 30);
+    expect(gitMocked.getDiffRangesByFile).toHaveBeenCalledWith(
+      false,
+      undefined,
+      30,
+    );
+  });
+
+  it("processes files concurrently but reports them in order", async () => {
+    const flushed: string[] = [];
+    logMocked.buffer.mockImplementation(() => {
+      let file = "";
+      return {
+        run: (fn) =>
+          fn().then((result) => {
+            file = (result as { file: string }).file;
+            return result;
+          }),
+        flush: () => flushed.push(file),
+      };
+    });
+    gitMocked.getDiffFileList.mockReturnValue(["slow.js", "fast.js"]);
+    prettierMocked.format.mockImplementation(
+      (text, options) =>
+        new Promise((resolve) =>
+          setTimeout(
+            () => resolve(`${text}!`),
+            options?.filepath === "slow.js" ? 20 : 0,
+          ),
+        ),
+    );
+
+    const result = await runPrettier({
+      ...baseOptions,
+      staged: true,
+      concurrency: 2,
+    });
+
+    expect(result.files.map(({ file }) => file)).toEqual([
+      "slow.js",
+      "fast.js",
+    ]);
+    expect(flushed).toEqual(["slow.js", "fast.js"]);
+  });
+
   it.each([
     [false, "whole-file mode"],
     [true, "line-ranges mode"],
-  ])("throws when check fails in %s", async (lines) => {
+  ])("is not ok when check fails in %s", async (lines) => {
     gitMocked.getDiffFileList.mockReturnValue(["a.js"]);
     fsMocked.readFileSync.mockReturnValue("old");
     prettierMocked.format.mockResolvedValue("new");
-    gitMocked.getRangesForDiff.mockReturnValue([new Range(0, 1)]);
-    await expect(
-      runPrettier({ ...baseOptions, check: true, staged: true, lines }),
-    ).rejects.toThrow("Some files are not formatted.");
+    gitMocked.getDiffRangesByFile.mockReturnValue(
+      new Map([["a.js", [new Range(1, 2)]]]),
+    );
+
+    const result = await runPrettier({
+      ...baseOptions,
+      check: true,
+      staged: true,
+      lines,
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.files).toEqual([withStatus("needs-formatting")]);
   });
 });
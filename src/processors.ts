@@ -1,27 +1,68 @@
 #!/usr/bin/env node
 
 import * as fs from "fs";
+import * as os from "os";
 import * as path from "path";
 import prettier from "prettier";
 import micromatch from "micromatch";
 
 import {
+  getDefaultBranch,
   getDiffFileList,
   getDiffForFile,
+  getDiffRangesByFile,
+  getIndexContent,
+  getRepoRoot,
+  getTrackedFileList,
+  getMergeBase,
+  getNewFileList,
+  getParentOrEmptyTree,
   getRangesForDiff,
+  getRevisionContent,
   getUntrackedFileList,
+  getWordChangesForDiff,
   hasCleanIndex,
+  isInIndex,
   fetchFromOrigin,
+  getCommitRangeRangesByFile,
+  getConflictedFileList,
+  toRepoPath,
+  updateIndexContent,
 } from "./git";
+import {
+  getBlamedRanges,
+  intersectRanges,
+  resolveBlameFilter,
+  type BlameFilter,
+} from "./blame";
 import { guessBranch } from "./ci";
-import log from "./log";
+import { filterByOwners } from "./codeowners";
+import log, { type LogBuffer } from "./log";
+import { widenToNodes } from "./nodes";
 import { LineOffsets } from "./offsets";
-import { insertMarkers, mergeMarkedSections } from "./marker";
+import { resolveOverrides, type ModeOverride } from "./overrides";
+import {
+  applyFormatting,
+  coversWholeFile,
+  formatCharRanges,
+  formatMarkedRanges,
+  formatRanges,
+  getChangedShare,
+  type CharRange,
+} from "./format";
+import {
+  formatText,
+  runPool,
+  startFormatWorkers,
+  stopFormatWorkers,
+} from "./pool";
+import type { Range } from "./Range";
 
 // ================================
 // 1. Branch Fetching for CI
 // ================================
-// When running in CI, ensure we fetch the latest branch for diff computation.
+// When running in CI, ensure we fetch the latest branch for diff computation
+// and diff against its merge-base, so only the PR's own lines are considered.
 if (process.env.CI !== undefined) {
   const branch = process.env.ESLINT_PLUGIN_DIFF_COMMIT ?? guessBranch();
 
@@ -30,7 +71,13 @@ if (process.env.CI !== undefined) {
     const branchWithOrigin = `origin/${branchWithoutOrigin}`;
 
     fetchFromOrigin(branchWithoutOrigin);
-    process.env.ESLINT_PLUGIN_DIFF_COMMIT = branchWithOrigin;
+
+    try {
+      process.env.ESLINT_PLUGIN_DIFF_COMMIT = getMergeBase(branchWithOrigin);
+    } catch (err: unknown) {
+      // Shallow clones may not contain the merge-base; use the branch tip.
+      process.env.ESLINT_PLUGIN_DIFF_COMMIT = branchWithOrigin;
+    }
   }
 }
 
@@ -42,83 +89,340 @@ type PrettierOptionsCLI = {
   staged: boolean; // --staged: only staged files
   changed: boolean; // --changed: only changed files
   trackedOnly: boolean; // --tracked-only: doesn't process untracked files
-  lines: boolean | "experimental"; // --lines: format only changed lines, or 'experimental'
+  lines: boolean | "experimental" | "node" | "word"; // --lines: format only changed lines, 'experimental', widened to whole nodes ('node') or only changed words ('word')
+  restage?: boolean; // --restage: stage what --staged rewrote in the working tree
+  base?: string; // --base: diff against this commit, branch or tag
+  branch?: string; // --branch: diff against the merge-base with this branch ('' = origin/HEAD)
+  concurrency?: number; // --concurrency: files processed in parallel (default: CPU count)
+  commits?: string; // --commits: only what a commit range (A..B) added, mapped onto the working tree
+  lastCommit?: boolean; // --lastCommit: shorthand for --commits HEAD~1..HEAD (from the empty tree for a root commit)
+  renameThreshold?: number; // --renameThreshold: similarity (%) for a file to count as renamed (default: 50)
+  wholeFileThreshold?: number; // --wholeFileThreshold: share (%) of changed lines above which files are formatted whole
   extensions?: string[]; // e.g., ['ts','js']: filter by file extensions
-  pattern?: string; // glob pattern to filter files
+  patterns?: string[]; // globs to filter files by, relative to the repo root ('!' negates)
+  /** @deprecated Use `patterns`. Matched against absolute paths, not repo-relative ones. */
+  pattern?: string;
+  ignore?: string[]; // --ignore: globs of files to leave out, relative to the repo root
+  revision?: string; // check files as of this commit instead of the working tree
+  author?: string; // --author: only lines whose author matches this regex
+  since?: string; // --since: only lines authored since this date
+  owners?: string[]; // --owner: only files these CODEOWNERS owners own
+  codeowners?: string; // --codeowners: the CODEOWNERS file (default: found like GitHub does)
+  explain?: boolean; // --explain: log the CODEOWNERS rule that matched each file
+  overrides?: ModeOverride[]; // the mode of the files matching globs, instead of `lines`
 };
 
 // ================================
-// 3. Entry Point
+// 3. Result Types
 // ================================
-async function runPrettier(options: PrettierOptionsCLI): Promise<void> {
+type FileStatus =
+  | "formatted" // the file was rewritten
+  | "unchanged" // the file was already formatted
+  | "needs-formatting" // --check found unformatted code
+  | "skipped" // the file couldn't be processed in the requested mode
+  | "ignored" // ignored by Prettier or no parser could be inferred
+  | "conflicted" // the file has unresolved merge conflicts
+  | "errored"; // Prettier or git failed for this file
+
+type ProcessingMode = "whole" | "ranges" | "markers";
+
+// 1-based, inclusive line numbers
+type LineRange = { start: number; end: number };
+
+type FileResult = {
+  file: string;
+  status: FileStatus;
+  mode: ProcessingMode;
+  ranges: LineRange[]; // affected ranges; empty in whole mode or if unchanged
+  error?: unknown;
+};
+
+type RunResult = {
+  ok: boolean; // false on errors, or on unformatted/conflicted files in --check mode
+  files: FileResult[];
+};
+
+const toLineRange = (range: Range): LineRange => ({
+  start: range.rangeStart() + 1,
+  end: range.rangeEnd(),
+});
+
+// An override picks the mode of its files instead of --lines. Blame filters
+// narrow files down to lines even without either.
+const getMode = (
+  options: PrettierOptionsCLI,
+  override?: ProcessingMode,
+): ProcessingMode => {
+  const mode =
+    override ??
+    (options.lines === "experimental"
+      ? "markers"
+      : options.lines
+        ? "ranges"
+        : "whole");
+
+  return mode === "whole" && hasBlameFilter(options) ? "ranges" : mode;
+};
+
+// Overrides may ask for ranges even without --lines.
+const usesDiffRanges = (options: PrettierOptionsCLI): boolean =>
+  options.lines !== false ||
+  (options.overrides ?? []).some(({ mode }) => mode !== "whole");
+
+const hasBlameFilter = ({ author, since }: PrettierOptionsCLI): boolean =>
+  author !== undefined || since !== undefined;
+
+const getConcurrency = ({ concurrency }: PrettierOptionsCLI): number =>
+  concurrency !== undefined && concurrency >= 1
+    ? Math.floor(concurrency)
+    : Math.max(1, os.cpus().length);
+
+// ================================
+// 4. Entry Point
+// ================================
+// Per-file failures are reported in the result; only failures that prevent
+// resolving the target files (e.g. git errors) are thrown.
+async function runPrettier(cliOptions: PrettierOptionsCLI): Promise<RunResult> {
+  const options = {
+    ...cliOptions,
+    base: resolveBase(cliOptions),
+    commits: resolveCommitRange(cliOptions),
+  };
   const targetFiles = resolveTargetFiles(options);
 
   if (targetFiles.length === 0) {
     log.info("No files to process.");
-    return;
+    return { ok: true, files: [] };
   }
 
-  let allOk = true;
-  let hasExitingError = false;
+  // Files are processed concurrently (Prettier itself in worker threads),
+  // but results and log output are collected in the original file order.
+  const concurrency = getConcurrency(options);
+  const buffers = targetFiles.map(() => log.buffer());
+  const rangesByFile = !usesDiffRanges(options)
+    ? undefined
+    : options.commits !== undefined
+      ? getCommitRangeRangesByFile(options.commits, options.renameThreshold)
+      : getDiffRangesByFile(
+          options.staged,
+          options.base,
+          options.renameThreshold,
+        );
+  const newFiles = usesDiffRanges(options)
+    ? resolveNewFiles(options)
+    : undefined;
+  const blameFilter = resolveBlameFilter(options);
+  const overrides = options.overrides?.length
+    ? resolveOverrides(targetFiles, options.overrides)
+    : undefined;
+  const conflictedFiles = new Set(getConflictedFileList());
+  const files: FileResult[] = [];
+
+  startFormatWorkers(Math.min(concurrency, targetFiles.length));
 
-  for (const file of targetFiles) {
-    try {
-      const ok =
-        options.lines === "experimental"
-          ? await processRangesWithMarkers(file, options)
-          : options.lines
-            ? await processFileByRanges(file, options)
-            : await processWholeFile(file, options);
-      if (!ok) {
-        allOk = false;
-      }
-    } catch (err) {
-      log.error(err, file);
-
-      const errMessage =
-        err instanceof Error ? (err.stack ?? err.message) : String(err);
+  try {
+    const results = runPool(targetFiles, concurrency, (file, i) =>
+      (buffers[i] as LogBuffer).run(() => {
+        const mode = overrides?.get(file);
+        const override = mode === "skip" ? undefined : mode;
+
+        return conflictedFiles.has(file)
+          ? Promise.resolve(skipConflictedFile(file, options, override))
+          : processFile(
+              file,
+              options,
+              rangesByFile?.get(file) ?? [],
+              newFiles?.has(file),
+              blameFilter,
+              override,
+            );
+      }),
+    );
 
-      if (err instanceof SyntaxError || !errMessage.includes("[PDQ Marker]")) {
-        hasExitingError = true;
-      }
+    for (const [i, result] of results.entries()) {
+      files.push(await result);
+      buffers[i]?.flush();
     }
+  } finally {
+    await stopFormatWorkers();
   }
 
-  if (hasExitingError) {
-    throw new Error(
-      "Prettier exiting error(s) occurred. See above for details.",
-    );
-  } else if (options.check && !allOk) {
-    throw new Error("Some files are not formatted.");
+  const ok = files.every(
+    ({ status }) =>
+      status !== "errored" &&
+      (!options.check ||
+        (status !== "needs-formatting" && status !== "conflicted")),
+  );
+
+  return { ok, files };
+}
+
+// Conflict markers aren't valid syntax, so these files are never formatted.
+function skipConflictedFile(
+  file: string,
+  options: PrettierOptionsCLI,
+  override?: ProcessingMode,
+): FileResult {
+  log.conflicted(file);
+
+  return {
+    file,
+    status: "conflicted",
+    mode: getMode(options, override),
+    ranges: [],
+  };
+}
+
+// Never rejects: failures are reported as an "errored" or "skipped" result.
+// New files are entirely changed, so they are always formatted whole, unless
+// a blame filter narrows them down (then diff ranges are narrowed too).
+async function processFile(
+  file: string,
+  options: PrettierOptionsCLI,
+  diffRanges: Range[],
+  isNewFile = false,
+  blameFilter?: BlameFilter,
+  override?: ProcessingMode,
+): Promise<FileResult> {
+  const mode = isNewFile && !blameFilter ? "whole" : getMode(options, override);
+
+  try {
+    const ranges = blameFilter
+      ? narrowToBlame(file, options, diffRanges, isNewFile, blameFilter)
+      : diffRanges;
+
+    return mode === "markers"
+      ? await processRangesWithMarkers(file, options, ranges)
+      : mode === "ranges"
+        ? await processFileByRanges(file, options, ranges)
+        : await processWholeFile(file, options);
+  } catch (err) {
+    log.error(err, file);
+
+    const errMessage =
+      err instanceof Error ? (err.stack ?? err.message) : String(err);
+    const isMarkerError =
+      !(err instanceof SyntaxError) && errMessage.includes("[PDQ Marker]");
+
+    return {
+      file,
+      status: isMarkerError ? "skipped" : "errored",
+      mode,
+      ranges: [],
+      error: err,
+    };
   }
+}
 
-  process.exitCode = 0;
+// Without --lines, the blamed lines are all there is to format. Files
+// formatted in the index only are blamed as staged, like their diff ranges.
+function narrowToBlame(
+  file: string,
+  options: PrettierOptionsCLI,
+  diffRanges: Range[],
+  isNewFile: boolean,
+  blameFilter: BlameFilter,
+): Range[] {
+  const blamedRanges = getBlamedRanges(
+    file,
+    blameFilter,
+    getFileSource(file, options) === "index"
+      ? getIndexContent(file)
+      : undefined,
+  );
+
+  return options.lines === false || isNewFile
+    ? blamedRanges
+    : intersectRanges(diffRanges, blamedRanges);
 }
 
 // ================================
-// 4. Resolve Target Files
+// 5. Resolve Diff Base & Commit Range
 // ================================
-function resolveTargetFiles(options: PrettierOptionsCLI): string[] {
-  const stagedFiles: string[] = getDiffFileList(true);
-  const changedFiles: string[] = getDiffFileList(false);
-  const untrackedFiles: string[] = getUntrackedFileList(false);
+function resolveBase(options: PrettierOptionsCLI): string | undefined {
+  if (options.branch === undefined) {
+    return options.base;
+  }
 
-  let files: string[] = [];
+  const target = options.branch || getDefaultBranch();
+  const mergeBase = getMergeBase(target);
+  log.info(`Diffing against merge-base ${mergeBase} with ${target}.`);
 
+  return mergeBase;
+}
+
+function resolveCommitRange(options: PrettierOptionsCLI): string | undefined {
+  const commits =
+    options.commits ??
+    (options.lastCommit ? `${getParentOrEmptyTree("HEAD")}..HEAD` : undefined);
+
+  // A single commit would diff against the working tree, like --base does.
+  if (commits !== undefined && !commits.includes("..")) {
+    throw Error(`Expected a commit range like A..B, but got '${commits}'.`);
+  }
+
+  return commits;
+}
+
+// ================================
+// 6. Resolve Target Files
+// ================================
+// Lists what `--commits`, or else `--staged`/`--changed`, select with `list`
+// (`getDiffFileList` or `getNewFileList`), plus untracked files.
+function listChangedFiles(
+  options: PrettierOptionsCLI,
+  list: (staged: boolean, base?: string, renameThreshold?: number) => string[],
+): string[] {
+  if (options.commits !== undefined) {
+    return list(false, options.commits, options.renameThreshold);
+  }
+
+  const files: string[] = [];
+
+  // Only list what the options ask for, each list costs a git process.
   if (options.staged === options.changed || options.staged) {
-    files.push(...stagedFiles);
+    files.push(...list(true, options.base, options.renameThreshold));
   }
 
   if (options.staged === options.changed || options.changed) {
-    files.push(...changedFiles);
+    files.push(...list(false, options.base, options.renameThreshold));
   }
 
   if (!options.trackedOnly) {
-    files.push(...untrackedFiles);
+    files.push(...getUntrackedFileList(false));
   }
 
+  return files;
+}
+
+// Blame filters can also run on their own, over all files instead of the
+// changed ones.
+function isBlameOnly(options: PrettierOptionsCLI): boolean {
+  return (
+    hasBlameFilter(options) &&
+    options.lines === false &&
+    !options.staged &&
+    !options.changed &&
+    options.commits === undefined &&
+    options.base === undefined
+  );
+}
+
+function listAllFiles(options: PrettierOptionsCLI): string[] {
+  return options.trackedOnly
+    ? getTrackedFileList()
+    : [...getTrackedFileList(), ...getUntrackedFileList(false)];
+}
+
+function resolveTargetFiles(options: PrettierOptionsCLI): string[] {
   // Remove duplicates
-  files = Array.from(new Set(files));
+  let files = Array.from(
+    new Set(
+      isBlameOnly(options)
+        ? listAllFiles(options)
+        : listChangedFiles(options, getDiffFileList),
+    ),
+  );
 
   // Filter by extensions if provided
   if (options.extensions?.length) {
@@ -126,193 +430,427 @@ function resolveTargetFiles(options: PrettierOptionsCLI): string[] {
     files = files.filter((file) => exts.includes(path.extname(file).slice(1)));
   }
 
+  // Globs are cheaper than the stat calls below, so they go first.
+  if (options.patterns?.length || options.ignore?.length) {
+    files = filterByGlobs(files, options);
+  }
+
+  // The deprecated single glob, matched like it always was.
+  if (options.pattern) {
+    files = micromatch.match(files, options.pattern, { dot: true });
+  }
+
+  // Files of a commit range may be gone from the working tree by now, which
+  // doesn't matter when they are read from a revision.
   files = files.filter(
     (file) =>
-      fs.statSync(file).isFile() && !path.basename(file).startsWith("."),
+      (options.revision !== undefined ||
+        fs.statSync(file, { throwIfNoEntry: false })?.isFile() === true) &&
+      !path.basename(file).startsWith("."),
   );
 
-  // Filter by glob pattern if provided (from positional argument)
-  if (options.pattern) {
-    files = micromatch.match(files, options.pattern, { dot: true });
+  if (options.owners?.length || options.explain) {
+    files = filterByOwners(files, options);
+  }
+
+  if (options.overrides?.length) {
+    const overrides = resolveOverrides(files, options.overrides);
+    files = files.filter((file) => overrides.get(file) !== "skip");
   }
 
   return files;
 }
 
+// Keeps the files matching any positive glob (all, without one) and none of
+// the negated ones or `--ignore` globs.
+function filterByGlobs(files: string[], options: PrettierOptionsCLI): string[] {
+  const root = getRepoRoot();
+  const patterns = options.patterns ?? [];
+  const included = patterns.filter((glob) => !glob.startsWith("!"));
+  const excluded = [
+    ...patterns
+      .filter((glob) => glob.startsWith("!"))
+      .map((glob) => glob.slice(1)),
+    ...(options.ignore ?? []),
+  ];
+
+  return files.filter((file) => {
+    const repoPath = toRepoPath(file, root);
+
+    return (
+      (included.length === 0 ||
+        micromatch.isMatch(repoPath, included, { dot: true })) &&
+      (excluded.length === 0 ||
+        !micromatch.isMatch(repoPath, excluded, { dot: true }))
+    );
+  });
+}
+
+// Files without a previous version to diff against have no meaningful ranges.
+function resolveNewFiles(options: PrettierOptionsCLI): Set<string> {
+  return new Set(listChangedFiles(options, getNewFileList));
+}
+
 // ================================
-// 5. Process Whole File
+// 7. Read & Write File Contents
 // ================================
-async function processWholeFile(
+// In staged mode, files with unstaged changes are formatted in the index,
+// so the commit gets the fix, and the formatting is merged into the working
+// tree without touching unstaged work, so staging the file again keeps it.
+// With --restage, clean files are written to both; as their index matched the
+// working tree, only the rewritten ranges end up as new staged changes.
+// Untracked files, which staged mode formats too, have no index version and
+// are only formatted in the working tree.
+// Files checked at a revision (see --prePush) are read from that commit.
+type FileSource = "worktree" | "index" | "worktree+index" | "revision";
+
+function getFileSource(file: string, options: PrettierOptionsCLI): FileSource {
+  if (options.revision !== undefined) {
+    return "revision";
+  }
+
+  if (!options.staged || !isInIndex(file)) {
+    return "worktree";
+  }
+
+  if (!hasCleanIndex(file)) {
+    return "index";
+  }
+
+  return options.restage ? "worktree+index" : "worktree";
+}
+
+function readSource(
   file: string,
-  options: PrettierOptionsCLI,
-): Promise<boolean> {
-  // Skip files with unstaged changes if in staged mode
-  if (options.staged && !hasCleanIndex(file)) {
-    log.skipped(
-      file,
-      "has unstaged changes. Please stage or remove the changes.",
+  source: FileSource,
+  revision = "HEAD",
+): string {
+  if (source === "revision") {
+    return getRevisionContent(file, revision);
+  }
+
+  return source === "index"
+    ? getIndexContent(file)
+    : fs.readFileSync(file, "utf-8");
+}
+
+// Merges the formatting of the index version of `file` into its working
+// tree copy. Formatting that overlaps unstaged changes can't be, and would be
+// undone by staging the file again as it is, so that gets a warning.
+function mergeIntoWorktree(
+  file: string,
+  original: string,
+  formatted: string,
+): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "pdq-staged-"));
+
+  try {
+    const text = applyFormatting(
+      dir,
+      fs.readFileSync(file, "utf-8"),
+      original,
+      formatted,
     );
-    return true;
+
+    if (text === undefined) {
+      log.warn(
+        `${file}: the formatting overlaps unstaged changes, so it is staged only. Staging the file again as it is would undo it.`,
+        file,
+      );
+    } else {
+      fs.writeFileSync(file, text, "utf-8");
+    }
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+function writeSource(
+  file: string,
+  text: string,
+  source: FileSource,
+  original: string,
+): void {
+  if (source === "revision") {
+    throw Error("Files read from a revision can only be checked.");
+  }
+
+  if (source !== "index") {
+    fs.writeFileSync(file, text, "utf-8");
+  }
+
+  if (source !== "worktree") {
+    updateIndexContent(file, text);
+  }
+
+  if (source === "index") {
+    mergeIntoWorktree(file, original, text);
   }
+}
 
-  const code = fs.readFileSync(file, "utf-8");
+// ================================
+// 8. Process Whole File
+// ================================
+async function processWholeFile(
+  file: string,
+  options: PrettierOptionsCLI,
+): Promise<FileResult> {
+  const source = getFileSource(file, options);
+  const code = readSource(file, source, options.revision);
   const info = await prettier.getFileInfo(file);
   const config = await prettier.resolveConfig(file);
 
   if (info.ignored || info.inferredParser === null) {
-    return true;
+    return { file, status: "ignored", mode: "whole", ranges: [] };
   }
 
-  const formatted = await prettier.format(code, {
+  const formatted = await formatText(code, {
     ...(config ?? {}),
     filepath: file,
   });
   const isNoChange = code.length === formatted.length && code === formatted;
 
+  if (isNoChange) {
+    return { file, status: "unchanged", mode: "whole", ranges: [] };
+  }
+
   if (options.check) {
-    if (!isNoChange) {
-      log.checked(file);
-      return false;
-    }
-  } else if (!isNoChange) {
-    fs.writeFileSync(file, formatted, "utf-8");
-    log.formatted(file);
+    log.checked(file);
+    return { file, status: "needs-formatting", mode: "whole", ranges: [] };
   }
 
-  return isNoChange;
+  writeSource(file, formatted, source, code);
+  log.formatted(file);
+
+  return { file, status: "formatted", mode: "whole", ranges: [] };
 }
 
 // ================================
-// 6. Process File by Changed Ranges
+// 9. Process File by Changed Ranges
 // ================================
 
+// Ranges covering the whole file, or more of it than --wholeFileThreshold,
+// are formatted whole rather than as a patchwork of ranges. The threshold
+// doesn't apply to blamed lines, which would then include others' lines.
+function shouldFormatWhole(
+  file: string,
+  ranges: Range[],
+  text: string,
+  options: PrettierOptionsCLI,
+): boolean {
+  if (coversWholeFile(ranges, text)) {
+    return true;
+  }
+
+  if (options.wholeFileThreshold === undefined || hasBlameFilter(options)) {
+    return false;
+  }
+
+  const share = getChangedShare(ranges, text);
+
+  if (share <= options.wholeFileThreshold) {
+    return false;
+  }
+
+  log.info(
+    `Escalated ${file} to whole-file formatting: ${Math.round(share)}% of its lines changed (threshold: ${options.wholeFileThreshold}%).`,
+    file,
+  );
+
+  return true;
+}
+
+// `ranges` defaults to this file's own diff; `runPrettier` passes them in
+// from a single diff over all files.
 async function processFileByRanges(
   file: string,
   options: PrettierOptionsCLI,
-): Promise<boolean> {
+  ranges = getRangesForDiff(
+    getDiffForFile(file, options.staged, options.base, options.renameThreshold),
+  ),
+): Promise<FileResult> {
   const info = await prettier.getFileInfo(file);
   const config = await prettier.resolveConfig(file);
 
   if (info.ignored || info.inferredParser === null) {
-    return true;
+    return { file, status: "ignored", mode: "ranges", ranges: [] };
   }
 
-  const originalText = fs.readFileSync(file, "utf-8");
-  const lineOffsets = new LineOffsets(originalText);
-  const diff = getDiffForFile(file, options.staged);
-  const ranges = getRangesForDiff(diff);
+  const source = getFileSource(file, options);
+  const originalText = readSource(file, source, options.revision);
+  const prettierOptions = { ...(config ?? {}), filepath: file };
+
+  // --lines=node: ranges cutting through a statement would format oddly.
+  if (options.lines === "node") {
+    ranges = await widenToNodes(originalText, ranges, prettierOptions);
+  }
 
-  if (
-    ranges.length === 1 &&
-    ranges[0]?.rangeStart() === 0 &&
-    Math.abs(ranges[0]?.rangeEnd() - lineOffsets.totalLines()) <= 1
-  ) {
+  if (shouldFormatWhole(file, ranges, originalText, options)) {
     return processWholeFile(file, options);
   }
 
   try {
-    let currentText = originalText;
-
-    for (const range of ranges) {
-      const startLine = range.rangeStart();
-      const endLine = range.rangeEnd();
-      const start = lineOffsets.getOffset(startLine);
-      const end = lineOffsets.getOffset(endLine) - 1;
-
-      currentText = await prettier.format(currentText, {
-        ...(config ?? {}),
-        filepath: file,
-        rangeStart: start,
-        rangeEnd: end,
-      });
-
-      if (options.check) {
-        const originalSegment = originalText.slice(start, end);
-        const currentSegment = currentText.slice(start, end);
-        const isNoChange =
-          originalSegment.length === currentSegment.length &&
-          originalSegment === currentSegment;
-
-        if (!isNoChange) {
-          log.checked(file, `${startLine + 1}-${endLine}`);
-        }
+    const { formatted, changed } = usesWordDiff(options)
+      ? await formatCharRanges(
+          originalText,
+          getWordRanges(file, options, ranges, originalText),
+          prettierOptions,
+        )
+      : await formatRanges(originalText, ranges, prettierOptions);
+    const changedRanges = changed.map(toLineRange).reverse();
+
+    if (options.check) {
+      for (const range of changed) {
+        log.checked(file, `${range.rangeStart() + 1}-${range.rangeEnd()}`);
       }
     }
 
     const isNoChange =
-      currentText.length === originalText.length &&
-      currentText === originalText;
+      formatted.length === originalText.length && formatted === originalText;
+
+    if (isNoChange) {
+      return { file, status: "unchanged", mode: "ranges", ranges: [] };
+    }
 
-    if (!options.check && !isNoChange) {
-      fs.writeFileSync(file, currentText, "utf-8");
+    if (options.check) {
+      return {
+        file,
+        status: "needs-formatting",
+        mode: "ranges",
+        ranges: changedRanges,
+      };
     }
 
-    return isNoChange;
+    writeSource(file, formatted, source, originalText);
+
+    return { file, status: "formatted", mode: "ranges", ranges: changedRanges };
   } catch (error) {
     log.error(error, file);
-    return processRangesWithMarkers(file, options);
+    return processRangesWithMarkers(file, options, ranges);
   }
 }
 
+// --lines=word narrows ranges down to words with a word diff of the file,
+// which only exists against the working tree or index, like the line diff.
+const usesWordDiff = (options: PrettierOptionsCLI): boolean =>
+  options.lines === "word" &&
+  options.commits === undefined &&
+  options.revision === undefined;
+
+// The words changed within `ranges`, as character offsets sorted bottom-up.
+// Removed words span the character after them, as Prettier formats nothing
+// for an empty range. Lines changed in a way the word diff doesn't show
+// (e.g. only whitespace) are kept whole.
+function getWordRanges(
+  file: string,
+  options: PrettierOptionsCLI,
+  ranges: Range[],
+  text: string,
+): CharRange[] {
+  const changes = getWordChangesForDiff(
+    getDiffForFile(
+      file,
+      options.staged,
+      options.base,
+      options.renameThreshold,
+      true,
+    ),
+  );
+  const lineOffsets = new LineOffsets(text);
+
+  return ranges
+    .flatMap((range) => {
+      const words = changes.filter(({ line }) => range.isWithinRange(line));
+
+      if (words.length === 0) {
+        return [
+          {
+            start: lineOffsets.getOffset(range.rangeStart()),
+            end: lineOffsets.getOffset(range.rangeEnd()) - 1,
+          },
+        ];
+      }
+
+      return words.map(({ line, column, length }) => {
+        const start = lineOffsets.getOffset(line - 1, column);
+
+        return { start, end: start + Math.max(length, 1) };
+      });
+    })
+    .sort((a, b) => b.start - a.start);
+}
+
 // ================================
-// 7. Process File by Changed Ranges Using Markers
+// 10. Process File by Changed Ranges Using Markers
 // ================================
 
 async function processRangesWithMarkers(
   file: string,
   options: PrettierOptionsCLI,
-): Promise<boolean> {
-  const originalText = fs.readFileSync(file, "utf-8");
+  ranges = getRangesForDiff(
+    getDiffForFile(file, options.staged, options.base, options.renameThreshold),
+  ),
+): Promise<FileResult> {
+  const source = getFileSource(file, options);
+  const originalText = readSource(file, source, options.revision);
   const info = await prettier.getFileInfo(file);
   const config = await prettier.resolveConfig(file);
 
   if (info.ignored || info.inferredParser === null) {
-    return true;
+    return { file, status: "ignored", mode: "markers", ranges: [] };
   }
 
-  const diff = getDiffForFile(file, options.staged);
-  const ranges = getRangesForDiff(diff);
-
-  if (ranges.length === 1 && ranges[0]?.rangeStart() === 0) {
-    const lineOffsets = new LineOffsets(originalText);
-
-    if (Math.abs(ranges[0]?.rangeEnd() - lineOffsets.totalLines()) <= 1) {
-      return processWholeFile(file, options);
-    }
+  if (shouldFormatWhole(file, ranges, originalText, options)) {
+    return processWholeFile(file, options);
   }
 
-  const markedText = insertMarkers(originalText, ranges, info.inferredParser);
-  const formattedWithMarkers = await prettier.format(markedText, {
-    ...(config ?? {}),
-    filepath: file,
-  });
-  const mergedText = mergeMarkedSections(
-    markedText,
-    formattedWithMarkers,
+  const mergedText = await formatMarkedRanges(
+    originalText,
+    ranges,
     info.inferredParser,
+    { ...(config ?? {}), filepath: file },
   );
 
+  if (mergedText === originalText) {
+    return { file, status: "unchanged", mode: "markers", ranges: [] };
+  }
+
+  const changedRanges = ranges.map(toLineRange).reverse();
+
   if (options.check) {
-    if (mergedText !== originalText) {
-      for (const range of ranges) {
-        log.checked(file, `${range.rangeStart() + 1}-${range.rangeEnd()}`);
-      }
-      return false;
+    for (const range of ranges) {
+      log.checked(file, `${range.rangeStart() + 1}-${range.rangeEnd()}`);
     }
-  } else if (mergedText !== originalText) {
-    fs.writeFileSync(file, mergedText, "utf-8");
-    log.formatted(file);
+
+    return {
+      file,
+      status: "needs-formatting",
+      mode: "markers",
+      ranges: changedRanges,
+    };
   }
 
-  return true;
+  writeSource(file, mergedText, source, originalText);
+  log.formatted(file);
+
+  return { file, status: "formatted", mode: "markers", ranges: changedRanges };
 }
 
 // Top-level export
 export {
   runPrettier,
+  resolveBase,
+  resolveCommitRange,
   resolveTargetFiles,
   processWholeFile,
   processFileByRanges,
   processRangesWithMarkers,
 };
-export type { PrettierOptionsCLI };
+export type {
+  PrettierOptionsCLI,
+  FileStatus,
+  ProcessingMode,
+  LineRange,
+  FileResult,
+  RunResult,
+};
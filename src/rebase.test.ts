@@ -0,0 +1,132 @@
+import * as git from "./git";
+import * as processors from "./processors";
+import { runRebase } from "./rebase";
+
+jest.mock("./git");
+jest.mock("./log");
+jest.mock("./processors");
+
+const gitMocked = jest.mocked(git);
+const processorsMocked = jest.mocked(processors);
+
+const baseOptions: processors.PrettierOptionsCLI = {
+  check: false,
+  staged: false,
+  changed: false,
+  lines: false,
+  trackedOnly: false,
+};
+
+const cwd = process.cwd();
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  gitMocked.resolveCommit.mockImplementation((rev) => `${rev}-sha`);
+  gitMocked.getCommitList.mockImplementation((_, mergesOnly) =>
+    mergesOnly ? [] : ["c1", "c2"],
+  );
+  gitMocked.getCwdPrefix.mockReturnValue("");
+  gitMocked.getMergeBase.mockImplementation((ref) => ref);
+  gitMocked.cherryPick.mockReturnValue(true);
+  processorsMocked.runPrettier.mockResolvedValue({ ok: true, files: [] });
+});
+
+afterEach(() => {
+  expect(process.cwd()).toBe(cwd);
+});
+
+describe("runRebase", () => {
+  it("formats each commit's own tree on top of the last, then moves the branch", async () => {
+    gitMocked.resolveCommit
+      .mockReturnValueOnce("head")
+      .mockReturnValueOnce("main-sha")
+      .mockReturnValueOnce("new1")
+      .mockReturnValueOnce("new2");
+
+    expect(await runRebase("main", baseOptions)).toEqual({
+      head: "new2",
+      commits: 2,
+    });
+    expect(gitMocked.getCommitList).toHaveBeenCalledWith("main-sha..head");
+    expect(gitMocked.addWorktree).toHaveBeenCalledWith(
+      expect.stringContaining("pdq-rebase-"),
+      "main-sha",
+    );
+    expect(gitMocked.cherryPick).not.toHaveBeenCalled();
+    expect(gitMocked.checkoutDetached.mock.calls).toEqual([["c1"], ["c2"]]);
+    expect(processorsMocked.runPrettier).toHaveBeenCalledWith(
+      expect.objectContaining({
+        check: false,
+        lines: true,
+        commits: "main-sha..HEAD",
+      }),
+    );
+    expect(gitMocked.recommit.mock.calls).toEqual([
+      ["c1", "main-sha"],
+      ["c2", "new1"],
+    ]);
+    expect(gitMocked.removeWorktree).toHaveBeenCalled();
+    expect(gitMocked.resetKeep).toHaveBeenCalledWith("new2");
+  });
+
+  it("first moves the unformatted commits onto an upstream that moved on", async () => {
+    gitMocked.getMergeBase.mockReturnValue("old-main");
+    gitMocked.resolveCommit
+      .mockReturnValueOnce("head")
+      .mockReturnValueOnce("main-sha")
+      .mockReturnValueOnce("picked1")
+      .mockReturnValueOnce("picked2");
+
+    await runRebase("main", baseOptions);
+
+    expect(gitMocked.cherryPick.mock.calls).toEqual([["c1"], ["c2"]]);
+    expect(gitMocked.checkoutDetached.mock.calls).toEqual([
+      ["picked1"],
+      ["picked2"],
+    ]);
+  });
+
+  it("aborts and leaves the branch untouched on conflicts", async () => {
+    gitMocked.getMergeBase.mockReturnValue("old-main");
+    gitMocked.cherryPick.mockReturnValueOnce(true).mockReturnValueOnce(false);
+
+    await expect(runRebase("main", baseOptions)).rejects.toThrow(
+      "Commit c2 doesn't apply on top of main.",
+    );
+    expect(gitMocked.recommit).not.toHaveBeenCalled();
+    expect(gitMocked.removeWorktree).toHaveBeenCalled();
+    expect(gitMocked.resetKeep).not.toHaveBeenCalled();
+  });
+
+  it("aborts when a commit can't be formatted", async () => {
+    processorsMocked.runPrettier.mockResolvedValueOnce({
+      ok: false,
+      files: [],
+    });
+
+    await expect(runRebase("main", baseOptions)).rejects.toThrow(
+      "Commit c1 couldn't be formatted.",
+    );
+    expect(gitMocked.recommit).not.toHaveBeenCalled();
+    expect(gitMocked.resetKeep).not.toHaveBeenCalled();
+  });
+
+  it("refuses to rebase merge commits", async () => {
+    gitMocked.getCommitList.mockReturnValue(["m1"]);
+
+    await expect(runRebase("main", baseOptions)).rejects.toThrow(
+      "Can't rebase merge commits, but main..HEAD has some.",
+    );
+    expect(gitMocked.addWorktree).not.toHaveBeenCalled();
+  });
+
+  it("explains how to finish when local changes block the reset", async () => {
+    gitMocked.resetKeep.mockImplementation(() => {
+      throw new Error("would be overwritten");
+    });
+
+    await expect(runRebase("main", baseOptions)).rejects.toThrow(
+      "Commit or stash them, then run 'git reset --keep HEAD-sha'.",
+    );
+  });
+});
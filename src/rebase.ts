@@ -0,0 +1,114 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  addWorktree,
+  checkoutDetached,
+  cherryPick,
+  getCommitList,
+  getCwdPrefix,
+  getMergeBase,
+  recommit,
+  removeWorktree,
+  resetKeep,
+  resolveCommit,
+} from "./git";
+import log from "./log";
+import { runPrettier, type PrettierOptionsCLI } from "./processors";
+
+type RebaseResult = {
+  head: string; // the rewritten tip the branch now points to
+  commits: number; // how many commits were replayed
+};
+
+// Like `git rebase <upstream>`, but each replayed commit gets the lines the
+// branch changed up to it formatted. Commits are replayed from their own,
+// unformatted tree rather than cherry-picked onto formatted parents, so
+// formatting never conflicts with later commits. Only a branch that isn't
+// based on upstream yet is cherry-picked onto it first, as is, which
+// conflicts just where `git rebase` would. The replay happens in a
+// throwaway worktree, so the branch only moves once every commit made it;
+// on any failure it is left as is.
+async function runRebase(
+  upstream: string,
+  options: PrettierOptionsCLI,
+): Promise<RebaseResult> {
+  const head = resolveCommit("HEAD");
+  const onto = resolveCommit(upstream);
+  const commits = getCommitList(`${onto}..${head}`);
+
+  if (getCommitList(`${onto}..${head}`, true).length > 0) {
+    throw Error(`Can't rebase merge commits, but ${upstream}..HEAD has some.`);
+  }
+
+  const cwd = process.cwd();
+  const prefix = getCwdPrefix();
+  const worktree = fs.mkdtempSync(path.join(os.tmpdir(), "pdq-rebase-"));
+  const isBasedOnUpstream = getMergeBase(onto) === onto;
+  let tip = onto;
+
+  addWorktree(worktree, onto);
+
+  try {
+    process.chdir(path.join(worktree, prefix));
+
+    const replayed = isBasedOnUpstream
+      ? commits
+      : commits.map((commit) => {
+          if (!cherryPick(commit)) {
+            throw Error(
+              `Commit ${commit} doesn't apply on top of ${upstream}. The rebase was aborted and the branch left untouched.`,
+            );
+          }
+
+          return resolveCommit("HEAD");
+        });
+
+    for (const [i, commit] of replayed.entries()) {
+      checkoutDetached(commit);
+
+      const result = await runPrettier({
+        ...options,
+        check: false,
+        staged: false,
+        changed: true,
+        trackedOnly: true,
+        lines: options.lines || true,
+        base: undefined,
+        branch: undefined,
+        commits: `${onto}..HEAD`,
+        lastCommit: undefined,
+      });
+
+      if (!result.ok) {
+        throw Error(
+          `Commit ${commits[i] ?? commit} couldn't be formatted. The rebase was aborted and the branch left untouched.`,
+        );
+      }
+
+      recommit(commit, tip);
+      tip = resolveCommit("HEAD");
+    }
+  } finally {
+    process.chdir(cwd);
+    removeWorktree(worktree);
+    fs.rmSync(worktree, { recursive: true, force: true });
+  }
+
+  try {
+    resetKeep(tip);
+  } catch (err: unknown) {
+    throw Error(
+      `Couldn't move the branch to the formatted commits (${tip}) without losing local changes. Commit or stash them, then run 'git reset --keep ${tip}'.`,
+    );
+  }
+
+  log.info(
+    `Formatted ${commits.length} commit(s); the previous tip is ${head} (ORIG_HEAD).`,
+  );
+
+  return { head: tip, commits: commits.length };
+}
+
+export { runRebase };
+export type { RebaseResult };
@@ -0,0 +1,18 @@
+import { parentPort } from "worker_threads";
+import prettier from "prettier";
+
+// Worker thread entry of `FormatWorkerPool`: formats one text per message.
+parentPort?.on(
+  "message",
+  ({ text, options }: { text: string; options: prettier.Options }) => {
+    prettier.format(text, options).then(
+      (formatted) => parentPort?.postMessage({ formatted }),
+      (err: unknown) => {
+        const error = err instanceof Error ? err : new Error(String(err));
+        const { name, message, stack } = error;
+
+        parentPort?.postMessage({ error: { name, message, stack } });
+      },
+    );
+  },
+);